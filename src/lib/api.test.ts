@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import { Schema } from "effect";
+import {
+  API_VERSION,
+  buildOpponentsResponse,
+  buildScheduleResponse,
+  buildStandingsResponse,
+  buildStatsResponse,
+  OpponentsResponse,
+  ScheduleResponse,
+  StandingsResponse,
+  StatsResponse,
+  standingsSeasons,
+  statsSeasons,
+} from "./api";
+import type { UlaxAllDataSerialized, UlaxGame, UlaxSeasonData } from "./ulax";
+
+let nextId = 1;
+const game = (date: string, opponent: string, bc: number | null, opp: number | null): UlaxGame => ({
+  id: nextId++,
+  date,
+  time: "5:00 pm",
+  field: "Beach Chalet",
+  awayTeam: opponent,
+  awayScore: opp,
+  homeTeam: "Barbary Coast",
+  homeScore: bc,
+  gameType: "regular",
+  typeName: "Regular Season",
+  isBarbaryCoast: true,
+  barbaryCoastIsHome: true,
+});
+
+const season = (overrides: Partial<UlaxSeasonData>): UlaxSeasonData => ({
+  schedule: [],
+  standings: [],
+  playerStats: [],
+  goalieStats: [],
+  roster: [],
+  ...overrides,
+});
+
+const data = {
+  fetchedAt: "2026-07-01T12:00:00.000Z",
+  currentSeason: "summer",
+  currentYear: 2026,
+  seasons: {
+    "summer-2026": season({
+      schedule: [game("2026-07-12", "Marin", null, null), game("2026-06-07", "Marin LC", 9, 4)],
+      standings: [
+        { team: "Barbary Coast", gp: 1, w: 1, l: 0, t: 0, pts: 2, gf: 9, ga: 4 },
+        { team: "Marin", gp: 1, w: 0, l: 1, t: 0, pts: 0, gf: 4, ga: 9 },
+      ],
+      playerStats: [
+        { name: "Sam Ortiz", number: "7", team: "", gp: 1, goals: 3, assists: 1, points: 4 },
+      ],
+      goalieStats: [
+        {
+          name: "Lee Park",
+          number: "1",
+          team: "",
+          wins: 1,
+          losses: 0,
+          goalsAgainst: 4,
+          saves: 12,
+          savePercentage: 0.75,
+        },
+      ],
+    }),
+    "spring-2025": season({ schedule: [game("2025-04-06", "SFLC", 5, 5)] }),
+  },
+} as unknown as UlaxAllDataSerialized;
+
+describe("buildScheduleResponse", () => {
+  test("lists our games oldest first from our side, with Pacific start times", () => {
+    const response = buildScheduleResponse(data);
+
+    expect(response.version).toBe(API_VERSION);
+    expect(response.currentSeason).toBe("summer-2026");
+    expect(response.games.map((g) => [g.season, g.date, g.result])).toEqual([
+      ["spring-2025", "2025-04-06", "T"],
+      ["summer-2026", "2026-06-07", "W"],
+      ["summer-2026", "2026-07-12", null],
+    ]);
+    expect(response.games[1]).toMatchObject({
+      homeTeam: "Barbary Coast",
+      opponent: "Marin LC",
+      isHome: true,
+      goalsFor: 9,
+      goalsAgainst: 4,
+      start: "2026-06-07T17:00:00-07:00",
+    });
+  });
+});
+
+describe("season responses", () => {
+  test("only seasons with data get a standings or stats file", () => {
+    expect(standingsSeasons(data)).toEqual(["summer-2026"]);
+    expect(statsSeasons(data)).toEqual(["summer-2026"]);
+  });
+
+  test("standings are ranked in table order and mark our row", () => {
+    const { source, standings } = buildStandingsResponse(data, "summer-2026");
+
+    expect(source).toBe("official");
+    expect(standings.map((row) => [row.rank, row.team, row.isBarbaryCoast])).toEqual([
+      [1, "Barbary Coast", true],
+      [2, "Marin", false],
+    ]);
+  });
+
+  test("stat lines without a team aren't marked as ours or theirs", () => {
+    const { players, goalies } = buildStatsResponse(data, "summer-2026");
+
+    expect(players.map((p) => p.isBarbaryCoast)).toEqual([null]);
+    expect(goalies.map((g) => g.isBarbaryCoast)).toEqual([null]);
+  });
+
+  test("stat lines with a team are marked by it", () => {
+    const sd = data.seasons["summer-2026"];
+    const withTeams = {
+      ...data,
+      seasons: {
+        "summer-2026": {
+          ...sd,
+          playerStats: [
+            { ...sd.playerStats[0], team: "Barbary Coast" },
+            { ...sd.playerStats[0], team: "Marin" },
+          ],
+        },
+      },
+    };
+
+    const { players } = buildStatsResponse(withTeams, "summer-2026");
+
+    expect(players.map((p) => p.isBarbaryCoast)).toEqual([true, false]);
+  });
+});
+
+describe("response schemas", () => {
+  test("every response encodes against its published shape", () => {
+    const encodes = [
+      () => Schema.encodeSync(ScheduleResponse)(buildScheduleResponse(data)),
+      () => Schema.encodeSync(StandingsResponse)(buildStandingsResponse(data, "summer-2026")),
+      () => Schema.encodeSync(StatsResponse)(buildStatsResponse(data, "summer-2026")),
+      () => Schema.encodeSync(OpponentsResponse)(buildOpponentsResponse(data)),
+    ];
+    for (const encode of encodes) expect(encode).not.toThrow();
+  });
+});
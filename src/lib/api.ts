@@ -0,0 +1,221 @@
+import { Schema } from "effect";
+import { formatInstant, gameInstant } from "./date";
+import { seasonSortKey } from "./history";
+import { buildHeadToHead, type HeadToHeadGame, toHeadToHeadGame } from "./opponents";
+import { cleanTeamName, isOurTeam } from "./team";
+import {
+  type UlaxAllDataSerialized,
+  UlaxGameSchema,
+  UlaxGoalieStats,
+  UlaxPlayerStats,
+  UlaxStandingSchema,
+} from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Version of the /api/*.json shapes, sent as `version` in every response.
+ * Adding a field is fine; renaming, removing or retyping one bumps this.
+ */
+export const API_VERSION = 1;
+
+const SeasonKey = Schema.String.pipe(Schema.pattern(/^(winter|spring|summer)-\d{4}$/));
+const Goals = Schema.NullOr(Schema.NonNegativeInt);
+const GameResult = Schema.Literal("W", "L", "T");
+
+/** A game of ours: the ULAX game with clean team names, plus our side of it. */
+export const ApiGame = Schema.Struct({
+  ...UlaxGameSchema.fields,
+  season: SeasonKey, // "summer-2026"
+  start: Schema.NullOr(Schema.String), // ISO datetime with Pacific offset; null while TBD
+  opponent: Schema.String,
+  isHome: Schema.Boolean,
+  goalsFor: Goals,
+  goalsAgainst: Goals,
+  result: Schema.NullOr(GameResult), // null until scored
+});
+export type ApiGame = typeof ApiGame.Type;
+
+/** A row of a league table, in table order. */
+export const ApiStanding = Schema.Struct({
+  rank: Schema.Int.pipe(Schema.positive()),
+  ...UlaxStandingSchema.fields,
+  isBarbaryCoast: Schema.Boolean,
+});
+
+// ULAX often leaves the team off stat lines; null then, since there's no
+// telling whose player it is
+const OnOurTeam = Schema.NullOr(Schema.Boolean);
+
+export const ApiPlayerStats = Schema.Struct({
+  ...UlaxPlayerStats.fields,
+  isBarbaryCoast: OnOurTeam,
+});
+
+export const ApiGoalieStats = Schema.Struct({
+  ...UlaxGoalieStats.fields,
+  isBarbaryCoast: OnOurTeam,
+});
+
+const Streak = Schema.Struct({
+  result: GameResult,
+  length: Schema.Int,
+  from: Schema.String,
+  to: Schema.String,
+});
+
+export const ApiOpponent = Schema.Struct({
+  slug: Schema.String, // as in /opponents/<slug>
+  name: Schema.String,
+  aliases: Schema.Array(Schema.String),
+  wins: Schema.NonNegativeInt,
+  losses: Schema.NonNegativeInt,
+  ties: Schema.NonNegativeInt,
+  goalsFor: Schema.NonNegativeInt,
+  goalsAgainst: Schema.NonNegativeInt,
+  lastMeeting: Schema.NullOr(ApiGame),
+  nextMeeting: Schema.NullOr(ApiGame),
+  longestStreak: Schema.NullOr(Streak),
+  currentStreak: Schema.NullOr(Streak),
+  games: Schema.Array(ApiGame), // oldest first, including unplayed games
+});
+
+// Every response carries the version and when the data was synced from ULAX
+const response = <Fields extends Schema.Struct.Fields>(fields: Fields) =>
+  Schema.Struct({ version: Schema.Literal(API_VERSION), fetchedAt: Schema.String, ...fields });
+
+/** /api/schedule.json: every game we've played or have scheduled, oldest first. */
+export const ScheduleResponse = response({
+  currentSeason: SeasonKey,
+  games: Schema.Array(ApiGame),
+});
+export type ScheduleResponse = typeof ScheduleResponse.Type;
+
+/** /api/standings/<season>.json */
+export const StandingsResponse = response({
+  season: SeasonKey,
+  // "computed" for archive seasons rebuilt from scores when ULAX has no table
+  source: Schema.Literal("official", "computed"),
+  standings: Schema.Array(ApiStanding),
+});
+export type StandingsResponse = typeof StandingsResponse.Type;
+
+/** /api/stats/<season>.json: the whole league's stat lines, as ULAX lists them. */
+export const StatsResponse = response({
+  season: SeasonKey,
+  players: Schema.Array(ApiPlayerStats),
+  goalies: Schema.Array(ApiGoalieStats),
+});
+export type StatsResponse = typeof StatsResponse.Type;
+
+/** /api/opponents.json: our record against each club, most meetings first. */
+export const OpponentsResponse = response({
+  opponents: Schema.Array(ApiOpponent),
+});
+export type OpponentsResponse = typeof OpponentsResponse.Type;
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+function toApiGame({ season, game, ...side }: HeadToHeadGame): ApiGame {
+  const instant = gameInstant(game.date, game.time);
+  return {
+    ...game,
+    awayTeam: cleanTeamName(game.awayTeam),
+    homeTeam: cleanTeamName(game.homeTeam),
+    season,
+    start: instant === null ? null : formatInstant(instant),
+    ...side,
+  };
+}
+
+function meta(data: UlaxAllDataSerialized) {
+  return { version: API_VERSION, fetchedAt: data.fetchedAt } as const;
+}
+
+export function buildScheduleResponse(data: UlaxAllDataSerialized): ScheduleResponse {
+  const games = Object.entries(data.seasons).flatMap(([season, sd]) =>
+    sd.schedule.filter((g) => g.isBarbaryCoast).map((g) => toApiGame(toHeadToHeadGame(season, g))),
+  );
+  return {
+    ...meta(data),
+    currentSeason: `${data.currentSeason}-${data.currentYear}`,
+    games: games.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        seasonSortKey(a.season) - seasonSortKey(b.season) ||
+        a.id - b.id,
+    ),
+  };
+}
+
+/** Seasons with a league table, for /api/standings/<season>.json */
+export function standingsSeasons(data: UlaxAllDataSerialized): string[] {
+  return Object.keys(data.seasons).filter((key) => data.seasons[key].standings.length > 0);
+}
+
+export function buildStandingsResponse(
+  data: UlaxAllDataSerialized,
+  season: string,
+): StandingsResponse {
+  const sd = data.seasons[season];
+  return {
+    ...meta(data),
+    season,
+    source: sd.standingsSource ?? "official",
+    standings: sd.standings.map((row, i) => ({
+      rank: i + 1,
+      ...row,
+      team: cleanTeamName(row.team),
+      isBarbaryCoast: isOurTeam(row.team),
+    })),
+  };
+}
+
+/** Seasons scraped with stats; archive backfills have schedules only. */
+export function statsSeasons(data: UlaxAllDataSerialized): string[] {
+  return Object.keys(data.seasons).filter(
+    (key) => data.seasons[key].playerStats.length > 0 || data.seasons[key].goalieStats.length > 0,
+  );
+}
+
+function onOurTeam(team: string): boolean | null {
+  return team === "" ? null : isOurTeam(team);
+}
+
+export function buildStatsResponse(data: UlaxAllDataSerialized, season: string): StatsResponse {
+  const sd = data.seasons[season];
+  return {
+    ...meta(data),
+    season,
+    players: sd.playerStats.map((p) => ({ ...p, isBarbaryCoast: onOurTeam(p.team) })),
+    goalies: sd.goalieStats.map((g) => ({ ...g, isBarbaryCoast: onOurTeam(g.team) })),
+  };
+}
+
+export function buildOpponentsResponse(data: UlaxAllDataSerialized): OpponentsResponse {
+  return {
+    ...meta(data),
+    opponents: buildHeadToHead(data.seasons).map(
+      ({ games, lastMeeting, nextMeeting, ...record }) => ({
+        ...record,
+        lastMeeting: lastMeeting && toApiGame(lastMeeting),
+        nextMeeting: nextMeeting && toApiGame(nextMeeting),
+        games: games.map(toApiGame),
+      }),
+    ),
+  };
+}
+
+/**
+ * Serve a response as JSON, checked against its schema on the way out so a
+ * change to the data can't quietly change the published shape.
+ */
+export function jsonResponse<A, I>(schema: Schema.Schema<A, I>, body: A): Response {
+  return new Response(`${JSON.stringify(Schema.encodeSync(schema)(body), null, 2)}\n`, {
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
@@ -0,0 +1,247 @@
+import { describe, expect, test } from "bun:test";
+import { HttpClient, HttpClientResponse } from "@effect/platform";
+import { Effect, Either, Layer, Logger, LogLevel, Option } from "effect";
+import {
+  applyCalendarSync,
+  type CalendarEvent,
+  CalendarService,
+  googleCalendarLayer,
+  replaceWindow,
+} from "./calendar";
+
+/** Fake Google that answers each request with `reply(url)`. */
+const googleServing = (reply: (url: URL) => [status: number, body: unknown]) =>
+  Layer.succeed(
+    HttpClient.HttpClient,
+    HttpClient.make((request, url) => {
+      const [status, body] = reply(url);
+      return Effect.succeed(
+        HttpClientResponse.fromWeb(request, new Response(JSON.stringify(body), { status })),
+      );
+    }),
+  );
+
+const GOOGLE = googleCalendarLayer({ calendarId: "team@example.com", apiKey: "key" });
+
+const googleReplying = (status: number, body: unknown) => googleServing(() => [status, body]);
+
+const syncEvents = (syncToken: string | null, reply: (url: URL) => [number, unknown]) =>
+  Effect.runPromise(
+    Effect.flatMap(CalendarService, (s) => s.syncEvents(syncToken)).pipe(
+      Effect.provide(GOOGLE.pipe(Layer.provide(googleServing(reply)))),
+      Logger.withMinimumLogLevel(LogLevel.Error),
+    ),
+  );
+
+const fetchEvents = (status: number, body: unknown) =>
+  Effect.runPromise(
+    Effect.flatMap(CalendarService, (s) => s.fetchEvents()).pipe(
+      Effect.provide(GOOGLE.pipe(Layer.provide(googleReplying(status, body)))),
+      Logger.withMinimumLogLevel(LogLevel.Error),
+      Effect.either,
+    ),
+  );
+
+const practice = (date: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: `practice_${date.replace(/-/g, "")}`,
+  summary: "Practice",
+  description: "",
+  location: "Kezar",
+  start: `${date}T18:30:00-07:00`,
+  end: `${date}T20:00:00-07:00`,
+  allDay: false,
+  status: "confirmed",
+  recurringEventId: "practice",
+  ...overrides,
+});
+
+describe("fetchEvents", () => {
+  test("decodes events with their recurrence and status", async () => {
+    const result = await fetchEvents(200, {
+      items: [
+        {
+          id: "practice_20260714",
+          status: "confirmed",
+          summary: "Practice",
+          location: "Kezar",
+          htmlLink: "https://www.google.com/calendar/event?eid=abc",
+          recurringEventId: "practice",
+          start: { dateTime: "2026-07-14T18:30:00-07:00" },
+          end: { dateTime: "2026-07-14T20:00:00-07:00" },
+          attendees: [{ email: "someone@example.com" }],
+        },
+        // A called-off week carries little more than where it was
+        {
+          id: "practice_20260721",
+          status: "cancelled",
+          recurringEventId: "practice",
+          originalStartTime: { dateTime: "2026-07-21T18:30:00-07:00" },
+        },
+        // Deleted outright: only the id is guaranteed
+        { id: "gone", status: "cancelled" },
+        { id: 42, summary: "Not an event" },
+        { id: "beers", summary: "BC Beers", start: { date: "2026-07-25" } },
+      ],
+    });
+    const events = Either.getOrThrow(result);
+
+    expect(events.map((e) => e.id)).toEqual(["practice_20260714", "practice_20260721", "beers"]);
+    expect(events[0]).toEqual({
+      id: "practice_20260714",
+      summary: "Practice",
+      description: "",
+      location: "Kezar",
+      start: "2026-07-14T18:30:00-07:00",
+      end: "2026-07-14T20:00:00-07:00",
+      allDay: false,
+      status: "confirmed",
+      recurringEventId: "practice",
+      htmlLink: "https://www.google.com/calendar/event?eid=abc",
+      updated: undefined,
+    });
+    expect(events[1]).toMatchObject({
+      status: "cancelled",
+      summary: "Practice",
+      location: "Kezar",
+      start: "2026-07-21T18:30:00-07:00",
+    });
+    expect(events[2]).toMatchObject({ allDay: true, start: "2026-07-25", status: "confirmed" });
+  });
+
+  test("tells a bad key from an exhausted quota", async () => {
+    const keyInvalid = await fetchEvents(400, {
+      error: { code: 400, message: "API key not valid.", errors: [{ reason: "keyInvalid" }] },
+    });
+    const quota = await fetchEvents(403, {
+      error: {
+        code: 403,
+        message: "Daily Limit Exceeded",
+        errors: [{ reason: "dailyLimitExceeded" }],
+      },
+    });
+
+    expect(Either.getLeft(keyInvalid).pipe(Option.getOrThrow)).toMatchObject({
+      _tag: "AuthError",
+      kind: "auth",
+    });
+    expect(Either.getLeft(quota).pipe(Option.getOrThrow)).toMatchObject({
+      _tag: "AuthError",
+      kind: "quota",
+    });
+  });
+
+  test("rejects a response without an event list", async () => {
+    const result = await fetchEvents(200, { items: "none" });
+
+    expect(Either.getLeft(result).pipe(Option.getOrThrow)._tag).toBe("UnexpectedResponseError");
+  });
+});
+
+describe("syncEvents", () => {
+  const moved = {
+    id: "beers",
+    summary: "BC Beers",
+    start: { dateTime: "2026-07-26T17:00:00-07:00" },
+    end: { dateTime: "2026-07-26T19:00:00-07:00" },
+  };
+
+  test("asks only for changes since the token", async () => {
+    const urls: URL[] = [];
+    const sync = await syncEvents("token-1", (url) => {
+      urls.push(url);
+      return [
+        200,
+        { items: [moved, { id: "gone", status: "cancelled" }], nextSyncToken: "token-2" },
+      ];
+    });
+
+    expect(urls[0].searchParams.get("syncToken")).toBe("token-1");
+    expect(urls[0].searchParams.has("orderBy")).toBe(false);
+    expect(sync).toMatchObject({ full: false, deleted: ["gone"], nextSyncToken: "token-2" });
+    expect(sync.events.map((e) => e.id)).toEqual(["beers"]);
+  });
+
+  test("falls back to a full sync when the token has expired", async () => {
+    const sync = await syncEvents("stale", (url) =>
+      url.searchParams.has("syncToken")
+        ? [410, { error: { code: 410, errors: [{ reason: "fullSyncRequired" }] } }]
+        : [200, { items: [moved], nextSyncToken: "fresh" }],
+    );
+
+    expect(sync).toMatchObject({ full: true, deleted: [], nextSyncToken: "fresh" });
+    expect(sync.events).toHaveLength(1);
+  });
+
+  test("follows pages and keeps the token from the last one", async () => {
+    const sync = await syncEvents(null, (url) =>
+      url.searchParams.get("pageToken") === "2"
+        ? [200, { items: [moved], nextSyncToken: "done" }]
+        : [200, { items: [], nextPageToken: "2" }],
+    );
+
+    expect(sync).toMatchObject({ full: true, nextSyncToken: "done" });
+    expect(sync.events).toHaveLength(1);
+  });
+});
+
+describe("applyCalendarSync", () => {
+  const stored = [practice("2026-07-07"), practice("2026-07-14"), practice("2026-07-21")];
+
+  test("merges changes and deletions into the stored events", () => {
+    const events = applyCalendarSync(stored, {
+      full: false,
+      events: [
+        practice("2026-07-14", { location: "Polo Fields" }),
+        { ...practice("2026-07-21", { status: "cancelled" }), summary: "", location: "" },
+        practice("2026-07-01"),
+      ],
+      deleted: ["practice_20260707"],
+      nextSyncToken: null,
+    });
+
+    expect(events.map((e) => [e.id, e.location, e.status])).toEqual([
+      ["practice_20260701", "Kezar", "confirmed"],
+      ["practice_20260714", "Polo Fields", "confirmed"],
+      // Named from the rest of the series
+      ["practice_20260721", "Kezar", "cancelled"],
+    ]);
+  });
+
+  test("replaces everything after a full sync", () => {
+    const events = applyCalendarSync(stored, {
+      full: true,
+      events: [practice("2026-07-28")],
+      deleted: [],
+      nextSyncToken: null,
+    });
+
+    expect(events.map((e) => e.id)).toEqual(["practice_20260728"]);
+  });
+});
+
+describe("replaceWindow", () => {
+  test("only replaces events that start inside the window", () => {
+    const events = replaceWindow(
+      [practice("2026-07-07"), practice("2026-07-14"), practice("2026-07-21")],
+      [practice("2026-07-16")],
+      { timeMin: "2026-07-10T00:00:00Z", timeMax: "2026-07-20T00:00:00Z" },
+    );
+
+    expect(events.map((e) => e.id)).toEqual([
+      "practice_20260707",
+      "practice_20260716",
+      "practice_20260721",
+    ]);
+  });
+
+  test("keeps one copy of an event that started before the window", () => {
+    // Google returns events that end after timeMin, including this one
+    const events = replaceWindow(
+      [practice("2026-07-09")],
+      [practice("2026-07-09", { location: "Beach Chalet" })],
+      { timeMin: "2026-07-10T02:00:00Z" },
+    );
+
+    expect(events.map((e) => [e.id, e.location])).toEqual([["practice_20260709", "Beach Chalet"]]);
+  });
+});
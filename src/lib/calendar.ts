@@ -1,5 +1,16 @@
-import { HttpClient, HttpClientRequest } from "@effect/platform";
-import { Context, Effect, Layer, Schema } from "effect";
+import { HttpClient } from "@effect/platform";
+import { Context, Effect, Either, Layer, Schema } from "effect";
+import calendarConfig from "../config/calendar.json";
+import {
+  AuthError,
+  execute,
+  type FetchError,
+  HttpError,
+  parseJson,
+  redactUrl,
+  snippet,
+  UnexpectedResponseError,
+} from "./errors";
 
 // ============================================================================
 // Types
@@ -13,6 +24,11 @@ export const CalendarEvent = Schema.Struct({
   start: Schema.String, // YYYY-MM-DD (all-day) or ISO datetime
   end: Schema.String,
   allDay: Schema.Boolean,
+  // Google metadata; absent from events synced before it was kept
+  status: Schema.optional(Schema.Literal("confirmed", "tentative", "cancelled")),
+  recurringEventId: Schema.optional(Schema.String), // shared by every instance of a repeat
+  htmlLink: Schema.optional(Schema.String), // the event on calendar.google.com
+  updated: Schema.optional(Schema.String), // ISO datetime of the last edit
 });
 
 export type CalendarEvent = typeof CalendarEvent.Type;
@@ -22,22 +38,131 @@ export interface CalendarData {
   fetchedAt: string;
 }
 
+export const CalendarSource = Schema.Union(
+  // GOOGLE_CALENDAR_ID and GOOGLE_API_KEY come from the environment
+  Schema.Struct({ type: Schema.Literal("google") }),
+  // Any iCalendar feed: a public .ics URL or a file path
+  Schema.Struct({ type: Schema.Literal("ics"), location: Schema.String }),
+);
+export type CalendarSource = typeof CalendarSource.Type;
+
+export const CalendarConfig = Schema.Struct({
+  source: CalendarSource,
+});
+export type CalendarConfig = typeof CalendarConfig.Type;
+
+/** Where `bun run sync:calendar` reads events from, per src/config/calendar.json. */
+export const CALENDAR_CONFIG: CalendarConfig =
+  Schema.decodeUnknownSync(CalendarConfig)(calendarConfig);
+
+export function isCancelled(event: CalendarEvent): boolean {
+  return event.status === "cancelled";
+}
+
+/** Calendar entries that duplicate games already synced from ulax.org */
+export function isUlaxEvent(event: CalendarEvent): boolean {
+  return /u\s?lax/i.test(event.summary);
+}
+
 // ============================================================================
-// Google Calendar API response types
+// Merging
 // ============================================================================
 
-interface GoogleCalendarEvent {
-  id: string;
-  summary?: string;
-  description?: string;
-  location?: string;
-  start?: { dateTime?: string; date?: string };
-  end?: { dateTime?: string; date?: string };
+function compareEvents(a: CalendarEvent, b: CalendarEvent): number {
+  return new Date(a.start).getTime() - new Date(b.start).getTime() || a.id.localeCompare(b.id);
+}
+
+/**
+ * A cancelled instance of a repeat (a practice called off one week) may come
+ * back with only its id and original start, so its name and place are filled
+ * in from the rest of the series.
+ */
+function fillCancellations(events: CalendarEvent[]): CalendarEvent[] {
+  const series = new Map<string, CalendarEvent>();
+  for (const event of events) {
+    if (event.recurringEventId && !isCancelled(event)) series.set(event.recurringEventId, event);
+  }
+
+  return events.map((event) => {
+    if (!isCancelled(event) || !event.recurringEventId) return event;
+    const sibling = series.get(event.recurringEventId);
+    return {
+      ...event,
+      summary: event.summary || sibling?.summary || "",
+      location: event.location || sibling?.location || "",
+    };
+  });
 }
 
-interface GoogleCalendarResponse {
-  items?: GoogleCalendarEvent[];
-  nextPageToken?: string;
+/** Apply a sync to the stored events: replace everything, or merge in the changes. */
+export function applyCalendarSync(
+  existing: readonly CalendarEvent[],
+  sync: CalendarSync,
+): CalendarEvent[] {
+  const byId = new Map(sync.full ? [] : existing.map((e) => [e.id, e]));
+  for (const id of sync.deleted) byId.delete(id);
+  for (const event of sync.events) byId.set(event.id, event);
+  return fillCancellations([...byId.values()]).sort(compareEvents);
+}
+
+/**
+ * Replace the stored events that start inside `window` with a fresh fetch of
+ * it. Google matches `timeMin` against an event's end, so an event already in
+ * progress at the start of the window can come back too; the fetched copy wins.
+ */
+export function replaceWindow(
+  existing: readonly CalendarEvent[],
+  fetched: readonly CalendarEvent[],
+  window: TimeWindow,
+): CalendarEvent[] {
+  const min = window.timeMin ? new Date(window.timeMin).getTime() : -Infinity;
+  const max = window.timeMax ? new Date(window.timeMax).getTime() : Infinity;
+  const fetchedIds = new Set(fetched.map((e) => e.id));
+  const outside = existing.filter((e) => {
+    const start = new Date(e.start).getTime();
+    return (start < min || start >= max) && !fetchedIds.has(e.id);
+  });
+  return fillCancellations([...outside, ...fetched]).sort(compareEvents);
+}
+
+// ============================================================================
+// Google Calendar API response types
+// ============================================================================
+
+const GoogleEventTime = Schema.Struct({
+  date: Schema.optional(Schema.String),
+  dateTime: Schema.optional(Schema.String),
+});
+
+// Only the fields the site uses; attendees, organizer and the like are dropped
+const GoogleCalendarEvent = Schema.Struct({
+  id: Schema.String,
+  status: Schema.optional(Schema.Literal("confirmed", "tentative", "cancelled")),
+  summary: Schema.optional(Schema.String),
+  description: Schema.optional(Schema.String),
+  location: Schema.optional(Schema.String),
+  htmlLink: Schema.optional(Schema.String),
+  updated: Schema.optional(Schema.String),
+  recurringEventId: Schema.optional(Schema.String),
+  // Where a moved or cancelled instance of a repeat was originally scheduled
+  originalStartTime: Schema.optional(GoogleEventTime),
+  start: Schema.optional(GoogleEventTime),
+  end: Schema.optional(GoogleEventTime),
+});
+type GoogleCalendarEvent = typeof GoogleCalendarEvent.Type;
+
+// Items are decoded one at a time so a single odd event is skipped, not fatal
+const GoogleCalendarResponse = Schema.Struct({
+  items: Schema.optionalWith(Schema.Array(Schema.Unknown), { default: () => [] }),
+  nextPageToken: Schema.optional(Schema.String),
+  nextSyncToken: Schema.optional(Schema.String), // on the last page only
+});
+
+interface GoogleApiError {
+  code?: number;
+  message?: string;
+  status?: string; // e.g. "PERMISSION_DENIED", "RESOURCE_EXHAUSTED"
+  errors?: { reason?: string }[]; // e.g. "keyInvalid", "dailyLimitExceeded"
 }
 
 // ============================================================================
@@ -46,13 +171,31 @@ interface GoogleCalendarResponse {
 
 const CALENDAR_API = "https://www.googleapis.com/calendar/v3/calendars";
 
+/** Limits a fetch to events starting in [timeMin, timeMax); ISO datetimes. */
+export interface TimeWindow {
+  timeMin?: string;
+  timeMax?: string;
+}
+
+export interface CalendarSync {
+  full: boolean; // false when `events` and `deleted` are changes since the token
+  events: CalendarEvent[];
+  deleted: string[]; // ids of events removed from the calendar
+  nextSyncToken: string | null;
+}
+
+export interface GoogleCalendarConfig {
+  calendarId: string;
+  apiKey: string;
+}
+
 export class CalendarService extends Context.Tag("CalendarService")<
   CalendarService,
   {
-    readonly fetchEvents: (
-      calendarId: string,
-      apiKey: string,
-    ) => Effect.Effect<CalendarEvent[], Error>;
+    readonly fetchEvents: (window?: TimeWindow) => Effect.Effect<CalendarEvent[], FetchError>;
+    // Changes since `syncToken`, or everything when it's null, has expired or
+    // the source can't tell what changed
+    readonly syncEvents: (syncToken: string | null) => Effect.Effect<CalendarSync, FetchError>;
   }
 >() {}
 
@@ -61,10 +204,12 @@ export class CalendarService extends Context.Tag("CalendarService")<
 // ============================================================================
 
 function transformEvent(raw: GoogleCalendarEvent): CalendarEvent | null {
-  if (!raw.id || !raw.start) return null;
+  // Cancelled instances of a repeat may carry only their original start
+  const when = raw.start ?? raw.originalStartTime;
+  if (!when) return null;
 
-  const allDay = !!raw.start.date && !raw.start.dateTime;
-  const start = (allDay ? raw.start.date : raw.start.dateTime) ?? "";
+  const allDay = !!when.date && !when.dateTime;
+  const start = (allDay ? when.date : when.dateTime) ?? "";
   if (!start) return null;
   const end = allDay ? (raw.end?.date ?? start) : (raw.end?.dateTime ?? start);
 
@@ -76,50 +221,164 @@ function transformEvent(raw: GoogleCalendarEvent): CalendarEvent | null {
     start,
     end,
     allDay,
+    status: raw.status ?? "confirmed",
+    recurringEventId: raw.recurringEventId,
+    htmlLink: raw.htmlLink,
+    updated: raw.updated,
   };
 }
 
-const makeFetchEvents = (client: HttpClient.HttpClient) => (calendarId: string, apiKey: string) =>
+/**
+ * Sort a Google API error into a bad key or permission (auth), a rate or
+ * daily limit (quota), or anything else.
+ */
+function googleError(url: string, status: number, error: GoogleApiError): FetchError {
+  const reasons = (error.errors ?? []).map((e) => e.reason ?? "");
+  const reason = `${error.message ?? "Unknown error"}${reasons.length > 0 ? ` (${reasons.join(", ")})` : ""}`;
+  const code = error.code ?? status;
+
+  if (
+    code === 429 ||
+    error.status === "RESOURCE_EXHAUSTED" ||
+    reasons.some((r) => /limit|quota/i.test(r))
+  ) {
+    return new AuthError({ url, kind: "quota", status: code, reason });
+  }
+  if (
+    code === 401 ||
+    code === 403 ||
+    reasons.some((r) => /keyInvalid|keyExpired|forbidden/i.test(r))
+  ) {
+    return new AuthError({ url, kind: "auth", status: code, reason });
+  }
+  return new HttpError({ url, status: code, reason });
+}
+
+const FULL_SYNC_REQUIRED = 410;
+
+/**
+ * Page through the events list. Events removed outright come back cancelled
+ * with little more than an id, so they're reported as deletions; cancelled
+ * instances of a repeat are kept so the site can show them as called off.
+ */
+const listEvents = (
+  client: HttpClient.HttpClient,
+  calendarId: string,
+  query: Record<string, string>,
+) =>
   Effect.gen(function* () {
-    const allEvents: CalendarEvent[] = [];
+    const events: CalendarEvent[] = [];
+    const deleted: string[] = [];
     let pageToken: string | undefined;
+    let nextSyncToken: string | null = null;
 
     do {
       const params = new URLSearchParams({
-        key: apiKey,
+        ...query,
+        // Instances of repeats, each tagged with recurringEventId
         singleEvents: "true",
-        orderBy: "startTime",
+        showDeleted: "true",
         maxResults: "2500",
       });
       if (pageToken) params.set("pageToken", pageToken);
 
       const url = `${CALENDAR_API}/${encodeURIComponent(calendarId)}/events?${params}`;
-      const response = yield* client.execute(HttpClientRequest.get(url));
-      const json = (yield* response.json) as GoogleCalendarResponse & {
-        error?: { message?: string; code?: number };
-      };
+      const { status, body } = yield* execute(client, url);
+      const parsed = yield* parseJson(url, body);
+      if (!parsed || typeof parsed !== "object") {
+        return yield* new UnexpectedResponseError({
+          url: redactUrl(url),
+          expected: "a list of events",
+          snippet: snippet(body),
+        });
+      }
+      const error = (parsed as { error?: GoogleApiError }).error;
+      if (error) {
+        return yield* Effect.fail(googleError(redactUrl(url), status, error));
+      }
+      if (status >= 400) {
+        return yield* new HttpError({ url: redactUrl(url), status, reason: snippet(body) });
+      }
 
-      if (json.error) {
-        return yield* Effect.fail(
-          new Error(`Google Calendar API error ${json.error.code}: ${json.error.message}`),
-        );
+      const decoded = Schema.decodeUnknownEither(GoogleCalendarResponse)(parsed);
+      if (Either.isLeft(decoded)) {
+        return yield* new UnexpectedResponseError({
+          url: redactUrl(url),
+          expected: "a list of events",
+          snippet: snippet(body),
+        });
       }
+      const json = decoded.right;
 
-      for (const item of json.items ?? []) {
-        const event = transformEvent(item);
-        if (event) allEvents.push(event);
+      for (const item of json.items) {
+        const raw = Schema.decodeUnknownEither(GoogleCalendarEvent)(item);
+        if (Either.isLeft(raw)) {
+          yield* Effect.logWarning(`Skipped calendar event: ${snippet(JSON.stringify(item))}`);
+          continue;
+        }
+        if (raw.right.status === "cancelled" && !raw.right.recurringEventId) {
+          deleted.push(raw.right.id);
+          continue;
+        }
+        const event = transformEvent(raw.right);
+        if (event) {
+          events.push(event);
+        } else {
+          yield* Effect.logWarning(`Skipped calendar event: ${snippet(JSON.stringify(item))}`);
+        }
       }
 
       pageToken = json.nextPageToken;
+      nextSyncToken = json.nextSyncToken ?? null;
     } while (pageToken);
 
-    return allEvents;
+    return { events, deleted, nextSyncToken };
   });
 
-export const CalendarServiceLive = Layer.effect(
-  CalendarService,
-  Effect.gen(function* () {
-    const client = yield* HttpClient.HttpClient;
-    return { fetchEvents: makeFetchEvents(client) };
-  }),
-);
+const makeFetchEvents =
+  (client: HttpClient.HttpClient, { calendarId, apiKey }: GoogleCalendarConfig) =>
+  (window: TimeWindow = {}) =>
+    Effect.gen(function* () {
+      const query: Record<string, string> = { key: apiKey };
+      if (window.timeMin) query.timeMin = window.timeMin;
+      if (window.timeMax) query.timeMax = window.timeMax;
+
+      const { events } = yield* listEvents(client, calendarId, query);
+      return applyCalendarSync([], { full: true, events, deleted: [], nextSyncToken: null });
+    });
+
+const makeSyncEvents =
+  (client: HttpClient.HttpClient, { calendarId, apiKey }: GoogleCalendarConfig) =>
+  (syncToken: string | null) => {
+    const full = Effect.map(
+      listEvents(client, calendarId, { key: apiKey }),
+      (result): CalendarSync => ({ full: true, ...result }),
+    );
+    if (!syncToken) return full;
+
+    return listEvents(client, calendarId, { key: apiKey, syncToken }).pipe(
+      Effect.map((result): CalendarSync => ({ full: false, ...result })),
+      // Google expires tokens after a while, or when too much has changed
+      Effect.catchIf(
+        (error) => error._tag === "HttpError" && error.status === FULL_SYNC_REQUIRED,
+        () =>
+          Effect.zipRight(
+            Effect.logWarning("Calendar sync token expired; doing a full sync"),
+            full,
+          ),
+      ),
+    );
+  };
+
+/** CalendarService over the Google Calendar API, with sync tokens. */
+export const googleCalendarLayer = (config: GoogleCalendarConfig) =>
+  Layer.effect(
+    CalendarService,
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      return {
+        fetchEvents: makeFetchEvents(client, config),
+        syncEvents: makeSyncEvents(client, config),
+      };
+    }),
+  );
@@ -0,0 +1,209 @@
+import { describe, expect, test } from "bun:test";
+import type { CalendarEvent } from "./calendar";
+import { diffCalendar, diffUlax, formatCalendarReport, formatUlaxReport } from "./changes";
+import type { UlaxGame, UlaxSeasonData, UlaxStanding } from "./ulax";
+
+const game = (id: number, home: string, away: string, overrides: Partial<UlaxGame> = {}) =>
+  ({
+    id,
+    date: "2026-07-12",
+    time: "5:00 pm",
+    field: "Beach Chalet",
+    awayTeam: away,
+    awayScore: null,
+    homeTeam: home,
+    homeScore: null,
+    gameType: "regular",
+    typeName: "Regular Season",
+    isBarbaryCoast: home === "Barbary Coast" || away === "Barbary Coast",
+    barbaryCoastIsHome: home === "Barbary Coast",
+    ...overrides,
+  }) satisfies UlaxGame;
+
+const standing = (team: string, w: number, l: number): UlaxStanding => ({
+  team,
+  gp: w + l,
+  w,
+  l,
+  t: 0,
+  pts: w * 2,
+  gf: 0,
+  ga: 0,
+});
+
+const season = (schedule: UlaxGame[], standings: UlaxStanding[] = []): UlaxSeasonData => ({
+  schedule,
+  standings,
+  playerStats: [],
+  goalieStats: [],
+  roster: [],
+});
+
+const event = (id: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id,
+  summary: "Practice",
+  description: "",
+  location: "Kezar",
+  start: "2026-07-14T18:30:00-07:00",
+  end: "2026-07-14T20:00:00-07:00",
+  allDay: false,
+  ...overrides,
+});
+
+describe("diffUlax", () => {
+  const before = {
+    "summer-2026": season(
+      [
+        game(1, "Barbary Coast", "Diablo"),
+        game(2, "Marin", "Sonoma County"),
+        game(3, "Diablo", "Marin", { homeScore: 4, awayScore: 5 }),
+        game(4, "Sonoma County", "Barbary Coast"),
+      ],
+      [standing("Marin", 1, 0), standing("Barbary Coast", 0, 0), standing("Diablo", 0, 1)],
+    ),
+  };
+  const after = {
+    "summer-2026": season(
+      [
+        game(1, "Barbary Coast", "Diablo", { homeScore: 9, awayScore: 3 }),
+        game(2, "Marin", "Sonoma County", { time: "7:00 pm" }),
+        game(3, "Diablo", "Marin", { homeScore: 5, awayScore: 5 }),
+        game(5, "Barbary Coast", "Marin", { date: "2026-08-02" }),
+      ],
+      [standing("Barbary Coast", 1, 0), standing("Marin", 1, 0), standing("Diablo", 0, 2)],
+    ),
+    "spring-2026": season([game(1, "Diablo", "Marin")]),
+  };
+
+  test("sorts game changes into categories by id within each season", () => {
+    const changes = diffUlax(before, after);
+
+    expect(changes.scoresPosted.map((c) => c.after.id)).toEqual([1]);
+    expect(changes.scoresCorrected.map((c) => c.after.id)).toEqual([3]);
+    expect(changes.rescheduled.map((c) => c.after.id)).toEqual([2]);
+    expect(changes.added.map((c) => c.game.id)).toEqual([5]);
+    expect(changes.removed.map((c) => c.game.id)).toEqual([4]);
+    expect(changes.newSeasons).toEqual([{ season: "spring-2026", games: 1 }]);
+  });
+
+  test("reports teams whose rank or points changed", () => {
+    const changes = diffUlax(before, after);
+
+    expect(changes.standings.map((m) => [m.team, m.fromRank, m.toRank])).toEqual([
+      ["Barbary Coast", 2, 1],
+      ["Marin", 1, 2],
+    ]);
+  });
+
+  test("treats every season as new on the first sync", () => {
+    const changes = diffUlax(undefined, after);
+
+    expect(changes.newSeasons).toHaveLength(2);
+    expect(changes.scoresPosted).toEqual([]);
+  });
+});
+
+describe("diffUlax standings mismatches", () => {
+  // Official table says Marin won twice, but the schedule has one game
+  const archive = (standings: UlaxStanding[]): UlaxSeasonData => ({
+    ...season([game(1, "Marin", "Diablo", { homeScore: 6, awayScore: 2 })], standings),
+    standingsSource: "official",
+  });
+  const official = [
+    { ...standing("Marin", 2, 0), gf: 6, ga: 2 },
+    { ...standing("Diablo", 0, 1), gf: 2, ga: 6 },
+  ];
+
+  test("lists official standings that disagree with the schedule", () => {
+    const changes = diffUlax({}, { "summer-2019": archive(official) });
+
+    expect(changes.standingsMismatches).toEqual([
+      {
+        season: "summer-2019",
+        team: "Marin",
+        differences: [
+          "gp 2 official, 1 computed",
+          "w 2 official, 1 computed",
+          "pts 4 official, 2 computed",
+        ],
+      },
+    ]);
+    expect(formatUlaxReport(changes)).toContain(
+      "### Standings that don't match the schedule\n\n- summer-2019: Marin: gp 2 official, 1 computed;",
+    );
+  });
+
+  test("accepts official rows that count playoff games", () => {
+    const withFinal: UlaxSeasonData = {
+      ...season(
+        [
+          game(1, "Marin", "Diablo", { homeScore: 6, awayScore: 2 }),
+          game(2, "Marin", "Diablo", {
+            homeScore: 5,
+            awayScore: 4,
+            gameType: "championship",
+            typeName: "Championship",
+          }),
+        ],
+        [
+          { ...standing("Marin", 2, 0), gf: 11, ga: 6 },
+          { ...standing("Diablo", 0, 2), gf: 6, ga: 11 },
+        ],
+      ),
+      standingsSource: "official",
+    };
+
+    expect(diffUlax({}, { "summer-2019": withFinal }).standingsMismatches).toEqual([]);
+  });
+
+  test("doesn't repeat a mismatch the last sync already reported", () => {
+    const data = { "summer-2019": archive(official) };
+
+    expect(diffUlax(data, data).standingsMismatches).toEqual([]);
+  });
+});
+
+describe("formatUlaxReport", () => {
+  test("lists each category with our games in bold", () => {
+    const report = formatUlaxReport(
+      diffUlax(
+        { "summer-2026": season([game(1, "Barbary Coast", "Diablo")]) },
+        {
+          "summer-2026": season([
+            game(1, "Barbary Coast", "Diablo", { field: "Kezar", time: "7:00 pm" }),
+          ]),
+        },
+      ),
+    );
+
+    expect(report).toBe(
+      [
+        "## ULAX sync",
+        "",
+        "### Time or field changes",
+        "",
+        "- summer-2026: **Diablo @ Barbary Coast** moved from 2026-07-12 5:00 pm at Beach Chalet to 2026-07-12 7:00 pm at Kezar",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("says so when nothing changed", () => {
+    const data = { "summer-2026": season([game(1, "Barbary Coast", "Diablo")]) };
+    expect(formatUlaxReport(diffUlax(data, data))).toContain("No changes");
+  });
+});
+
+describe("diffCalendar", () => {
+  test("finds added, removed and changed events by id", () => {
+    const changes = diffCalendar(
+      { events: [event("a"), event("b")], fetchedAt: "" },
+      { events: [event("a", { location: "Crocker Amazon" }), event("c")], fetchedAt: "" },
+    );
+
+    expect(changes.added.map((e) => e.id)).toEqual(["c"]);
+    expect(changes.removed.map((e) => e.id)).toEqual(["b"]);
+    expect(changes.changed.map((c) => c.after.id)).toEqual(["a"]);
+    expect(formatCalendarReport(changes)).toContain("- Practice: location now Crocker Amazon");
+  });
+});
@@ -0,0 +1,312 @@
+import { type CalendarData, type CalendarEvent, isCancelled } from "./calendar";
+import {
+  compareStandings,
+  rankStandings,
+  type StandingsMismatch,
+  standingsFromSchedule,
+} from "./standings";
+import { isOurTeam } from "./team";
+import type { UlaxGame, UlaxSeasonData } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GameChange {
+  season: string;
+  before: UlaxGame;
+  after: UlaxGame;
+}
+
+export interface SeasonGame {
+  season: string;
+  game: UlaxGame;
+}
+
+export interface StandingsMove {
+  season: string;
+  team: string;
+  fromRank: number;
+  toRank: number;
+  fromPts: number;
+  toPts: number;
+}
+
+export interface SeasonStandingsMismatch extends StandingsMismatch {
+  season: string;
+}
+
+export interface UlaxChanges {
+  newSeasons: { season: string; games: number }[];
+  scoresPosted: GameChange[];
+  scoresCorrected: GameChange[];
+  rescheduled: GameChange[]; // date, time or field changed
+  added: SeasonGame[];
+  removed: SeasonGame[];
+  standings: StandingsMove[];
+  // Official archive tables that disagree with their own schedule
+  standingsMismatches: SeasonStandingsMismatch[];
+}
+
+export interface CalendarChanges {
+  added: CalendarEvent[];
+  removed: CalendarEvent[];
+  changed: { before: CalendarEvent; after: CalendarEvent }[];
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function isScored(game: UlaxGame): boolean {
+  return game.homeScore !== null && game.awayScore !== null;
+}
+
+function diffStandings(season: string, before: UlaxSeasonData, after: UlaxSeasonData) {
+  const ranksBefore = new Map(
+    rankStandings(before.standings, before.schedule).map((s) => [s.team, s]),
+  );
+  const moves: StandingsMove[] = [];
+  for (const s of rankStandings(after.standings, after.schedule)) {
+    const prev = ranksBefore.get(s.team);
+    if (!prev || (prev.rank === s.rank && prev.pts === s.pts)) continue;
+    moves.push({
+      season,
+      team: s.team,
+      fromRank: prev.rank,
+      toRank: s.rank,
+      fromPts: prev.pts,
+      toPts: s.pts,
+    });
+  }
+  return moves;
+}
+
+// Checked when a season's official table is new or has changed, so a known
+// mismatch isn't repeated in every report. Archive tables may or may not count
+// playoff games, so a team whose row matches either way is fine.
+function checkOfficialStandings(
+  season: string,
+  before: UlaxSeasonData | undefined,
+  after: UlaxSeasonData,
+): SeasonStandingsMismatch[] {
+  if (after.standingsSource !== "official") return [];
+  if (before && JSON.stringify(before.standings) === JSON.stringify(after.standings)) return [];
+  const withPostseason = new Set(
+    compareStandings(
+      after.standings,
+      standingsFromSchedule(after.schedule, { withPostseason: true }),
+    ).map((m) => m.team),
+  );
+  return compareStandings(after.standings, standingsFromSchedule(after.schedule))
+    .filter((m) => withPostseason.has(m.team))
+    .map((m) => ({ season, ...m }));
+}
+
+/**
+ * What a sync changed, season by season. ULAX reuses game ids between
+ * seasons, so games are matched by id within the same season key.
+ */
+export function diffUlax(
+  before: Record<string, UlaxSeasonData> | undefined,
+  after: Record<string, UlaxSeasonData>,
+): UlaxChanges {
+  const changes: UlaxChanges = {
+    newSeasons: [],
+    scoresPosted: [],
+    scoresCorrected: [],
+    rescheduled: [],
+    added: [],
+    removed: [],
+    standings: [],
+    standingsMismatches: [],
+  };
+
+  for (const [season, data] of Object.entries(after)) {
+    const previous = before?.[season];
+    changes.standingsMismatches.push(...checkOfficialStandings(season, previous, data));
+    if (!previous) {
+      changes.newSeasons.push({ season, games: data.schedule.length });
+      continue;
+    }
+
+    const oldGames = new Map(previous.schedule.map((g) => [g.id, g]));
+    for (const game of data.schedule) {
+      const old = oldGames.get(game.id);
+      oldGames.delete(game.id);
+      if (!old) {
+        changes.added.push({ season, game });
+        continue;
+      }
+
+      const change = { season, before: old, after: game };
+      if (!isScored(old) && isScored(game)) {
+        changes.scoresPosted.push(change);
+      } else if (
+        isScored(old) &&
+        (old.homeScore !== game.homeScore || old.awayScore !== game.awayScore)
+      ) {
+        changes.scoresCorrected.push(change);
+      }
+      if (old.date !== game.date || old.time !== game.time || old.field !== game.field) {
+        changes.rescheduled.push(change);
+      }
+    }
+    for (const game of oldGames.values()) {
+      changes.removed.push({ season, game });
+    }
+
+    changes.standings.push(...diffStandings(season, previous, data));
+  }
+
+  return changes;
+}
+
+export function diffCalendar(
+  before: CalendarData | undefined,
+  after: CalendarData,
+): CalendarChanges {
+  const oldEvents = new Map((before?.events ?? []).map((e) => [e.id, e]));
+  const changes: CalendarChanges = { added: [], removed: [], changed: [] };
+
+  for (const event of after.events) {
+    const old = oldEvents.get(event.id);
+    oldEvents.delete(event.id);
+    if (!old) {
+      changes.added.push(event);
+    } else if (
+      old.summary !== event.summary ||
+      old.start !== event.start ||
+      old.end !== event.end ||
+      old.location !== event.location ||
+      isCancelled(old) !== isCancelled(event)
+    ) {
+      changes.changed.push({ before: old, after: event });
+    }
+  }
+  changes.removed.push(...oldEvents.values());
+
+  return changes;
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+function gameLabel(game: UlaxGame): string {
+  const label = `${game.awayTeam} @ ${game.homeTeam}`;
+  return game.isBarbaryCoast || isOurTeam(game.homeTeam) || isOurTeam(game.awayTeam)
+    ? `**${label}**`
+    : label;
+}
+
+function scoreLine(game: UlaxGame): string {
+  return `${game.awayTeam} ${game.awayScore}, ${game.homeTeam} ${game.homeScore}`;
+}
+
+function when(game: UlaxGame): string {
+  return `${game.date} ${game.time} at ${game.field}`;
+}
+
+function eventWhen(event: CalendarEvent): string {
+  return event.allDay ? event.start.slice(0, 10) : event.start;
+}
+
+function section(title: string, lines: string[]): string[] {
+  return lines.length > 0 ? [`### ${title}`, "", ...lines.map((l) => `- ${l}`), ""] : [];
+}
+
+export function formatUlaxReport(changes: UlaxChanges): string {
+  const lines = [
+    ...section(
+      "Final scores",
+      changes.scoresPosted.map(({ season, after }) => `${season}: ${scoreLine(after)}`),
+    ),
+    ...section(
+      "Score corrections",
+      changes.scoresCorrected.map(
+        ({ season, before, after }) =>
+          `${season}: ${gameLabel(after)} was ${before.awayScore}-${before.homeScore}, now ${after.awayScore}-${after.homeScore}`,
+      ),
+    ),
+    ...section(
+      "Time or field changes",
+      changes.rescheduled.map(
+        ({ season, before, after }) =>
+          `${season}: ${gameLabel(after)} moved from ${when(before)} to ${when(after)}`,
+      ),
+    ),
+    ...section(
+      "Games added",
+      changes.added.map(({ season, game }) => `${season}: ${gameLabel(game)}, ${when(game)}`),
+    ),
+    ...section(
+      "Games removed",
+      changes.removed.map(({ season, game }) => `${season}: ${gameLabel(game)}, ${when(game)}`),
+    ),
+    ...section(
+      "Standings",
+      changes.standings.map(
+        (m) =>
+          `${m.season}: ${isOurTeam(m.team) ? `**${m.team}**` : m.team} ${m.fromRank} → ${m.toRank} (${m.fromPts} → ${m.toPts} pts)`,
+      ),
+    ),
+    ...section(
+      "New seasons",
+      changes.newSeasons.map(({ season, games }) => `${season} (${games} games)`),
+    ),
+    ...section(
+      "Standings that don't match the schedule",
+      changes.standingsMismatches.map(
+        ({ season, team, differences }) => `${season}: ${team}: ${differences.join("; ")}`,
+      ),
+    ),
+  ];
+
+  return [
+    "## ULAX sync",
+    "",
+    ...(lines.length > 0 ? lines : ["No changes to games or standings.", ""]),
+  ]
+    .join("\n")
+    .trimEnd()
+    .concat("\n");
+}
+
+export function formatCalendarReport(changes: CalendarChanges): string {
+  const lines = [
+    ...section(
+      "New events",
+      changes.added.map(
+        (e) =>
+          `${isCancelled(e) ? "Cancelled: " : ""}${e.summary}, ${eventWhen(e)}${e.location ? ` at ${e.location}` : ""}`,
+      ),
+    ),
+    ...section(
+      "Changed events",
+      changes.changed.map(({ before, after }) => {
+        const parts: string[] = [];
+        if (isCancelled(before) !== isCancelled(after)) {
+          parts.push(isCancelled(after) ? "cancelled" : "back on");
+        }
+        if (before.summary !== after.summary) parts.push(`renamed from "${before.summary}"`);
+        if (before.start !== after.start || before.end !== after.end) {
+          parts.push(`moved from ${eventWhen(before)} to ${eventWhen(after)}`);
+        }
+        if (before.location !== after.location) {
+          parts.push(`location now ${after.location || "unset"}`);
+        }
+        return `${after.summary}: ${parts.join(", ")}`;
+      }),
+    ),
+    ...section(
+      "Removed events",
+      changes.removed.map((e) => `${e.summary}, ${eventWhen(e)}`),
+    ),
+  ];
+
+  return ["## Calendar sync", "", ...(lines.length > 0 ? lines : ["No calendar changes.", ""])]
+    .join("\n")
+    .trimEnd()
+    .concat("\n");
+}
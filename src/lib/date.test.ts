@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import {
+  addDays,
+  daysBetween,
+  formatDate,
+  formatInstant,
+  formatTime,
+  gameInstant,
+  monthOf,
+  pacificDate,
+  pacificToday,
+  parseGameTime,
+  parseUlaxDate,
+  toInstant,
+  weekday,
+} from "./date";
+
+describe("parseGameTime", () => {
+  test("converts ULAX times to 24-hour", () => {
+    expect(parseGameTime("5:00 pm")).toBe("17:00");
+    expect(parseGameTime("12:00 pm")).toBe("12:00");
+    expect(parseGameTime("11:30 am")).toBe("11:30");
+    expect(parseGameTime("TBD")).toBeNull();
+  });
+});
+
+describe("parseUlaxDate", () => {
+  test("reads ULAX's written-out dates without a time zone", () => {
+    expect(parseUlaxDate("January 11, 2026")).toBe("2026-01-11");
+    expect(parseUlaxDate("Mar 8, 2026")).toBe("2026-03-08");
+    expect(parseUlaxDate(" December 31 2025 ")).toBe("2025-12-31");
+  });
+
+  test("rejects anything that isn't a real date", () => {
+    expect(parseUlaxDate("February 30, 2026")).toBeNull();
+    expect(parseUlaxDate("Ju 4, 2026")).toBeNull();
+    expect(parseUlaxDate("TBD")).toBeNull();
+  });
+});
+
+describe("gameInstant", () => {
+  test("places games in Pacific time on either side of DST", () => {
+    // Clocks spring forward on March 8th and fall back on November 1st
+    const instants = [
+      ["2026-03-07", "5:00 pm"],
+      ["2026-03-08", "5:00 pm"],
+      ["2026-10-31", "5:00 pm"],
+      ["2026-11-01", "5:00 pm"],
+    ].map(([date, time]) => new Date(gameInstant(date, time) ?? 0).toISOString());
+
+    expect(instants).toEqual([
+      "2026-03-08T01:00:00.000Z",
+      "2026-03-09T00:00:00.000Z",
+      "2026-11-01T00:00:00.000Z",
+      "2026-11-02T01:00:00.000Z",
+    ]);
+    expect(gameInstant("2026-03-08", "TBD")).toBeNull();
+  });
+
+  test("moves a time skipped by DST forward and takes the first of a repeated one", () => {
+    expect(formatInstant(toInstant("2026-03-08", "02:30:00"))).toBe("2026-03-08T03:30:00-07:00");
+    expect(formatInstant(toInstant("2026-11-01", "01:30:00"))).toBe("2026-11-01T01:30:00-07:00");
+  });
+});
+
+describe("Pacific dates", () => {
+  test("today turns over at Pacific midnight, not UTC", () => {
+    expect(pacificToday(new Date("2026-03-08T07:59:00Z"))).toBe("2026-03-07");
+    expect(pacificToday(new Date("2026-03-08T08:00:00Z"))).toBe("2026-03-08");
+    expect(pacificToday(new Date("2026-11-01T06:59:00Z"))).toBe("2026-10-31");
+    expect(pacificToday(new Date("2026-11-02T07:59:00Z"))).toBe("2026-11-01");
+  });
+
+  test("an evening event belongs to its Pacific day and month", () => {
+    expect(pacificDate("2026-04-01T04:30:00Z")).toBe("2026-03-31");
+    expect(monthOf(pacificDate("2026-04-01T04:30:00Z"))).toBe("2026-03");
+    expect(formatTime("2026-04-01T04:30:00Z")).toBe("9:30 PM");
+    expect(formatTime("2026-11-02T04:30:00Z")).toBe("8:30 PM");
+  });
+});
+
+describe("calendar arithmetic", () => {
+  test("counts whole days through DST changes", () => {
+    expect(addDays("2026-03-07", 1)).toBe("2026-03-08");
+    expect(addDays("2026-03-08", 1)).toBe("2026-03-09");
+    expect(addDays("2026-10-31", 2)).toBe("2026-11-02");
+    expect(addDays("2026-12-15", 30)).toBe("2027-01-14");
+    expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2);
+    expect(daysBetween("2026-11-02", "2026-10-31")).toBe(-2);
+    expect(weekday("2026-03-08")).toBe(0);
+  });
+
+  test("formats a date as the same day wherever the build runs", () => {
+    expect(formatDate("2026-03-08", { month: "short", day: "numeric", year: "numeric" })).toBe(
+      "Mar 8, 2026",
+    );
+    expect(formatDate("2026-01-01", { month: "long" })).toBe("January");
+  });
+});
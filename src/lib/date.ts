@@ -1,11 +1,206 @@
+// ============================================================================
+// ULAX dates and times
+// ============================================================================
+
+// ULAX lists dates as they'd be read in San Francisco, e.g. "January 11, 2026"
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+/** "January 11, 2026" -> "2026-01-11"; null if it isn't a date like that */
+export function parseUlaxDate(text: string): string | null {
+  const match = text.trim().match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (!match) return null;
+  const month = MONTHS.findIndex((m) => m.startsWith(match[1].toLowerCase()));
+  const day = Number(match[2]);
+  if (
+    month < 0 ||
+    match[1].length < 3 ||
+    day < 1 ||
+    day > daysInMonth(Number(match[3]), month + 1)
+  ) {
+    return null;
+  }
+  return `${match[3]}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** "5:00 pm" -> "17:00"; null for "TBD" and other non-times */
+export function parseGameTime(time: string): string | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*([ap])\.?m\.?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]) % 12;
+  if (match[3].toLowerCase() === "p") hours += 12;
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+}
+
+// ============================================================================
+// Time zones
+// ============================================================================
+
+/** The team plays in San Francisco; dates and times on the site are Pacific. */
+export const TIMEZONE = "America/Los_Angeles";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(zone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+}
+
+export function isKnownZone(zone: string): boolean {
+  try {
+    formatterFor(zone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and time in `zone` at an instant. */
+export function wallClock(ms: number, zone: string = TIMEZONE): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    formatterFor(zone)
+      .formatToParts(new Date(ms))
+      .map((p) => [p.type, p.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+  };
+}
+
+function utcMillis(date: string, time: string): number {
+  return Date.parse(`${date}T${time}Z`);
+}
+
+// Minutes ahead of UTC, e.g. -420 for PDT
+function offsetAt(ms: number, zone: string): number {
+  const { date, time } = wallClock(ms, zone);
+  return (utcMillis(date, time) - Math.floor(ms / 1000) * 1000) / 60_000;
+}
+
 /**
- * Parse a date string and return a Date object in local time.
- * Handles both ISO strings (2026-01-11T13:00:00.000Z) and date-only strings (2026-01-11).
- * Avoids timezone shift issues when displaying dates.
+ * The instant a wall-clock time happens in a zone. A time skipped by a DST
+ * change lands an hour later; a repeated one takes the first occurrence.
  */
-export function parseLocalDate(dateStr: string): Date {
-  // If it's a full ISO string, extract just the date part
-  const datePart = dateStr.split("T")[0];
-  // Parse as local time by adding T00:00:00 (no Z suffix)
-  return new Date(`${datePart}T00:00:00`);
+export function toInstant(date: string, time: string, zone: string = TIMEZONE): number {
+  const asUtc = utcMillis(date, time);
+  const first = asUtc - offsetAt(asUtc, zone) * 60_000;
+  const second = asUtc - offsetAt(first, zone) * 60_000;
+  const exact = [first, second].filter((ms) => {
+    const wall = wallClock(ms, zone);
+    return utcMillis(wall.date, wall.time) === asUtc;
+  });
+  return exact.length > 0 ? Math.min(...exact) : Math.max(first, second);
+}
+
+/** ISO datetime with the zone's offset, as Google returns them. */
+export function formatInstant(ms: number, zone: string = TIMEZONE): string {
+  const { date, time } = wallClock(ms, zone);
+  const offset = offsetAt(ms, zone);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${date}T${time}${offset < 0 ? "-" : "+"}${hours}:${minutes}`;
+}
+
+// ============================================================================
+// Pacific dates
+// ============================================================================
+
+/** Today's date in Pacific time as YYYY-MM-DD. */
+export function pacificToday(now: Date = new Date()): string {
+  return wallClock(now.getTime()).date;
+}
+
+/** The Pacific date (YYYY-MM-DD) an ISO datetime falls on. */
+export function pacificDate(iso: string): string {
+  return wallClock(Date.parse(iso)).date;
+}
+
+/**
+ * When a ULAX game starts: its Pacific `date` and `time` ("5:00 pm") as an
+ * instant. Null while the time is TBD.
+ */
+export function gameInstant(date: string, time: string): number | null {
+  const wall = parseGameTime(time);
+  return wall === null ? null : toInstant(date, `${wall}:00`);
+}
+
+/** Midnight Pacific at the start of a date. */
+export function startOfDay(date: string): number {
+  return toInstant(date, "00:00:00");
+}
+
+// ============================================================================
+// Calendar arithmetic
+// ============================================================================
+
+// Dates are plain calendar days; UTC is used only as a calendar without DST
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to`, negative when `to` is earlier. */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** 0 for Sunday through 6 for Saturday */
+export function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** "2026-01" for any date or Pacific ISO datetime in January 2026 */
+export function monthOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** Format a calendar date, e.g. `{ month: "short", day: "numeric" }` -> "Jan 11". */
+export function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  // Noon UTC is the same calendar day everywhere the formatter could land
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
+
+/** Pacific wall-clock time of an instant or ISO datetime, e.g. "6:30 PM". */
+export function formatTime(instant: number | string): string {
+  return new Date(instant).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: TIMEZONE,
+  });
 }
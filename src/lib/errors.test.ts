@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { HttpClient, HttpClientResponse } from "@effect/platform";
+import { Effect, Either, Option } from "effect";
+import { getJson, getText } from "./errors";
+
+const clientReplying = (status: number, body: string) =>
+  HttpClient.make((request) =>
+    Effect.succeed(HttpClientResponse.fromWeb(request, new Response(body, { status }))),
+  );
+
+const failure = <A, E>(effect: Effect.Effect<A, E>) =>
+  Effect.runPromise(Effect.either(effect)).then((result) =>
+    Option.getOrThrow(Either.getLeft(result)),
+  );
+
+const EVENTS_URL =
+  "https://www.googleapis.com/calendar/v3/calendars/x/events?key=secret&maxResults=10";
+
+describe("getText", () => {
+  test("sorts error statuses into auth, quota and HTTP failures", async () => {
+    expect(await failure(getText(clientReplying(403, "Forbidden"), EVENTS_URL))).toMatchObject({
+      _tag: "AuthError",
+      kind: "auth",
+    });
+    expect(await failure(getText(clientReplying(429, "Slow down"), EVENTS_URL))).toMatchObject({
+      _tag: "AuthError",
+      kind: "quota",
+    });
+    expect(await failure(getText(clientReplying(502, "Bad gateway"), EVENTS_URL))).toMatchObject({
+      _tag: "HttpError",
+      status: 502,
+      reason: "Bad gateway",
+    });
+  });
+
+  test("keeps API keys out of error URLs", async () => {
+    const error = await failure(getText(clientReplying(500, ""), EVENTS_URL));
+    expect(error.url).toBe(
+      "https://www.googleapis.com/calendar/v3/calendars/x/events?key=…&maxResults=10",
+    );
+  });
+});
+
+describe("getJson", () => {
+  test("reports unparseable bodies with a snippet", async () => {
+    const page = `<html>\n  <h1>Something went wrong</h1>${" ".repeat(300)}x`.padEnd(400, "x");
+    const error = await failure(getJson(clientReplying(200, page), EVENTS_URL));
+
+    expect(error._tag).toBe("ResponseParseError");
+    if (error._tag === "ResponseParseError") {
+      expect(error.snippet.startsWith("<html> <h1>Something went wrong</h1>")).toBe(true);
+      expect(error.snippet.length).toBeLessThanOrEqual(201);
+    }
+  });
+});
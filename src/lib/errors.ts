@@ -0,0 +1,125 @@
+import { type HttpClient, type HttpClientError, HttpClientRequest } from "@effect/platform";
+import { Data, Effect } from "effect";
+
+// ============================================================================
+// Error types
+// ============================================================================
+
+/** The request never got a usable response: network down, timeout or an error status. */
+export class HttpError extends Data.TaggedError("HttpError")<{
+  url: string;
+  status: number | null; // null when no response arrived
+  reason: string;
+}> {
+  override get message() {
+    return `${this.status ? `HTTP ${this.status}` : "Request failed"} for ${this.url}: ${this.reason}`;
+  }
+}
+
+/** Valid JSON or HTML that isn't what the scraper expects, e.g. after a site redesign. */
+export class UnexpectedResponseError extends Data.TaggedError("UnexpectedResponseError")<{
+  url: string;
+  expected: string;
+  snippet: string;
+}> {
+  override get message() {
+    return `Expected ${this.expected} from ${this.url}, got: ${this.snippet}`;
+  }
+}
+
+/** A body that couldn't be parsed at all, such as an HTML error page where JSON was due. */
+export class ResponseParseError extends Data.TaggedError("ResponseParseError")<{
+  url: string;
+  reason: string;
+  snippet: string;
+}> {
+  override get message() {
+    return `Couldn't parse response from ${this.url} (${this.reason}): ${this.snippet}`;
+  }
+}
+
+/** The server refused us: a bad API key, missing permission or exhausted quota. */
+export class AuthError extends Data.TaggedError("AuthError")<{
+  url: string;
+  kind: "auth" | "quota";
+  status: number;
+  reason: string;
+}> {
+  override get message() {
+    const what = this.kind === "quota" ? "Quota exceeded" : "Not authorized";
+    return `${what} (HTTP ${this.status}) for ${this.url}: ${this.reason}`;
+  }
+}
+
+export type FetchError = HttpError | UnexpectedResponseError | ResponseParseError | AuthError;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const SNIPPET_LENGTH = 200;
+
+/** Start of a response body, whitespace collapsed, for error messages. */
+export function snippet(body: string): string {
+  const text = body.replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text;
+}
+
+/** API keys are passed in query strings, so they're dropped from URLs in errors. */
+export function redactUrl(url: string): string {
+  return url.replace(/([?&]key=)[^&]+/, "$1…");
+}
+
+// The HTTP policy fails with the last response once 429 retries run out
+function fromHttpClientError(url: string, error: HttpClientError.HttpClientError) {
+  if (error._tag === "RequestError") {
+    return new HttpError({ url, status: null, reason: error.message });
+  }
+  const status = error.response.status;
+  return status === 429
+    ? new AuthError({ url, kind: "quota", status, reason: error.message })
+    : new HttpError({ url, status, reason: error.message });
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/** GET a URL and read its body, whatever the status; only transport failures fail. */
+export const execute = (client: HttpClient.HttpClient, url: string) =>
+  Effect.gen(function* () {
+    const response = yield* client.execute(HttpClientRequest.get(url));
+    const body = yield* response.text;
+    return { status: response.status, body };
+  }).pipe(Effect.mapError((error) => fromHttpClientError(redactUrl(url), error)));
+
+/** GET a URL, failing with a typed error unless it answers 2xx. */
+export const getText = (client: HttpClient.HttpClient, url: string) =>
+  Effect.gen(function* () {
+    const { status, body } = yield* execute(client, url);
+    const safeUrl = redactUrl(url);
+    if (status === 401 || status === 403) {
+      return yield* new AuthError({ url: safeUrl, kind: "auth", status, reason: snippet(body) });
+    }
+    if (status === 429) {
+      return yield* new AuthError({ url: safeUrl, kind: "quota", status, reason: snippet(body) });
+    }
+    if (status < 200 || status >= 300) {
+      return yield* new HttpError({ url: safeUrl, status, reason: snippet(body) });
+    }
+    return body;
+  });
+
+export const parseJson = (url: string, body: string) =>
+  Effect.try({
+    try: (): unknown => JSON.parse(body),
+    catch: (error) =>
+      new ResponseParseError({
+        url: redactUrl(url),
+        reason: error instanceof Error ? error.message : String(error),
+        snippet: snippet(body),
+      }),
+  });
+
+export const getJson = (client: HttpClient.HttpClient, url: string) =>
+  Effect.flatMap(getText(client, url), (body) => parseJson(url, body));
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+import type { CalendarEvent } from "./calendar";
+import { buildTimeline, collapseRecurring, isUpcoming } from "./events";
+import type { UlaxGame } from "./ulax";
+
+const game = (date: string, time: string, overrides: Partial<UlaxGame> = {}): UlaxGame => ({
+  id: Number(date.replace(/-/g, "").slice(4)),
+  date,
+  time,
+  field: "Beach Chalet - Pitch #4",
+  awayTeam: "Barbary Coast",
+  awayScore: null,
+  homeTeam: "Olympic Club",
+  homeScore: null,
+  gameType: "regular",
+  typeName: "Regular Season",
+  isBarbaryCoast: true,
+  barbaryCoastIsHome: false,
+  ...overrides,
+});
+
+const summer = (...schedule: UlaxGame[]) => ({ "summer-2026": { schedule } });
+
+const entry = (
+  id: string,
+  summary: string,
+  start: string,
+  overrides: Partial<CalendarEvent> = {},
+) =>
+  ({
+    id,
+    summary,
+    description: "",
+    location: "",
+    start,
+    end: start,
+    allDay: false,
+    status: "confirmed",
+    ...overrides,
+  }) satisfies CalendarEvent;
+
+const practice = (date: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent =>
+  entry(`practice_${date.replace(/-/g, "")}`, "Practice", `${date}T18:30:00-07:00`, {
+    location: "Kezar",
+    recurringEventId: "practice",
+    ...overrides,
+  });
+
+describe("buildTimeline", () => {
+  test("folds calendar entries for league games into the game", () => {
+    const early = game("2026-07-12", "5:00 pm", { homeTeam: "Sonoma County Lacrosse Club" });
+    const late = game("2026-07-12", "7:00 pm", { homeTeam: "Diablo Lacrosse Club", id: 2 });
+    const timeline = buildTimeline(summer(late, early), [
+      entry("sonoma", "BC vs. Sonoma", "2026-07-12T17:00:00-07:00", { htmlLink: "https://cal" }),
+      entry("diablo", "BC vs. Diablo", "2026-07-12T19:00:00-07:00"),
+      entry("ulax", "ULAX Summer League", "2026-07-19T17:00:00-07:00"),
+    ]);
+
+    expect(timeline.map((e) => [e.kind, e.title, e.start])).toEqual([
+      ["game", "vs Sonoma County Lacrosse Club", "2026-07-12T17:00:00-07:00"],
+      ["game", "vs Diablo Lacrosse Club", "2026-07-12T19:00:00-07:00"],
+    ]);
+    expect(timeline.map((e) => e.id)).toEqual(["ulax-summer-2026-712", "ulax-summer-2026-2"]);
+    expect(timeline[0].calendarEvent?.id).toBe("sonoma");
+    expect(timeline[1].calendarEvent?.id).toBe("diablo");
+  });
+
+  test("links by the opponent's name before the start time", () => {
+    const sflc = game("2026-01-18", "6:00 pm", { homeTeam: "San Francisco Lacrosse Club" });
+    const ducks = game("2026-01-18", "7:00 pm", { homeTeam: "Palo Alto Ducks", id: 2 });
+    const timeline = buildTimeline({ "winter-2026": { schedule: [sflc, ducks] } }, [
+      entry("optional", "Free Agents vs SFLC (Optional)", "2026-01-18T17:00:00-08:00"),
+      entry("ducks", "BC vs. Palo Alto", "2026-01-18T18:00:00-08:00"),
+      entry("sflc", "BC vs SFLC", "2026-01-18T18:30:00-08:00"),
+    ]);
+
+    expect(timeline.map((e) => [e.kind, e.calendarEvent?.id])).toEqual([
+      ["scrimmage", "optional"],
+      ["game", "sflc"],
+      ["game", "ducks"],
+    ]);
+  });
+
+  test("folds a scrimmage entry into the non-league game it names", () => {
+    const timeline = buildTimeline(
+      {},
+      [
+        entry("stanford", "BC vs. Stanford", "2026-04-05T11:00:00-07:00", {
+          location: "Johnson Field",
+        }),
+        entry("beers", "BC Beers", "2026-04-05T15:00:00-07:00"),
+      ],
+      [
+        {
+          id: "stanford-apr-2026",
+          date: "2026-04-05",
+          time: "12:00 pm",
+          competition: "scrimmage",
+          opponent: "Stanford MCLA",
+          location: "",
+          goalsFor: 8,
+          goalsAgainst: 5,
+        },
+      ],
+    );
+
+    expect(timeline.map((e) => [e.id, e.kind, e.location])).toEqual([
+      ["game-stanford-apr-2026", "scrimmage", "Johnson Field"],
+      ["cal-beers", "social", ""],
+    ]);
+    expect(timeline[0].calendarEvent?.id).toBe("stanford");
+    expect(isUpcoming(timeline[0], "2026-04-01")).toBe(false);
+  });
+
+  test("keeps other teams' games out and TBD playoff slots in", () => {
+    const timeline = buildTimeline(
+      summer(
+        game("2026-07-19", "5:00 pm", { isBarbaryCoast: false, awayTeam: "Marin" }),
+        game("2026-08-09", "TBD", {
+          awayTeam: "TBD",
+          homeTeam: "TBD",
+          gameType: "championship",
+          typeName: "Championship",
+          isBarbaryCoast: false,
+        }),
+      ),
+      [],
+    );
+
+    expect(timeline).toHaveLength(1);
+    expect(timeline[0]).toMatchObject({
+      title: "Championship",
+      allDay: true,
+      start: "2026-08-09T00:00:00-07:00",
+    });
+  });
+
+  test("classifies calendar entries and dates them in Pacific time", () => {
+    const timeline = buildTimeline({}, [
+      entry("stanford", "Scrimmage vs Stanford MCLA", "2026-04-05T12:00:00-07:00"),
+      entry("vegas", "Vegas Shootout", "2026-06-15", { allDay: true }),
+      entry("beers", "BC Beers", "2026-03-26T04:30:00Z"),
+      entry("practice", "BC Practice", "2026-03-25T20:00:00-07:00"),
+      entry("marin", "BC vs Marin", "2026-05-03T17:00:00-07:00"),
+      entry("chiro", "Chiro", "2026-03-28T14:00:00-07:00"),
+    ]);
+
+    expect(timeline.map((e) => [e.id, e.kind, e.date])).toEqual([
+      ["cal-practice", "practice", "2026-03-25"],
+      // 9:30pm Pacific, though it's the 26th in UTC
+      ["cal-beers", "social", "2026-03-25"],
+      ["cal-chiro", "event", "2026-03-28"],
+      ["cal-stanford", "scrimmage", "2026-04-05"],
+      ["cal-marin", "scrimmage", "2026-05-03"],
+      ["cal-vegas", "tournament", "2026-06-15"],
+    ]);
+    expect(timeline[1].start).toBe("2026-03-25T21:30:00-07:00");
+  });
+
+  test("treats games as upcoming until they're scored", () => {
+    const [played, pending, social] = buildTimeline(
+      summer(
+        game("2026-06-14", "5:00 pm", { homeScore: 5, awayScore: 7 }),
+        game("2026-06-28", "2:00 pm"),
+      ),
+      [entry("beers", "BC Beers", "2026-06-30T19:00:00-07:00")],
+    );
+
+    expect(isUpcoming(played, "2026-07-01")).toBe(false);
+    expect(isUpcoming(pending, "2026-07-01")).toBe(true);
+    expect(isUpcoming(social, "2026-07-01")).toBe(false);
+    expect(isUpcoming(social, "2026-06-30")).toBe(true);
+  });
+});
+
+describe("collapseRecurring", () => {
+  test("describes a weekly repeat by its day and time", () => {
+    const entries = collapseRecurring(
+      buildTimeline({}, [
+        practice("2026-07-07"),
+        practice("2026-07-09"),
+        practice("2026-07-14"),
+        practice("2026-07-16"),
+      ]),
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      recurrence: "Tuesdays & Thursdays 6:30pm",
+      dates: ["2026-07-07", "2026-07-09", "2026-07-14", "2026-07-16"],
+    });
+    expect(entries[0].event.start).toBe("2026-07-07T18:30:00-07:00");
+  });
+
+  test("keeps cancellations, moved instances and one-offs separate", () => {
+    const entries = collapseRecurring(
+      buildTimeline({}, [
+        practice("2026-07-07"),
+        practice("2026-07-14", { status: "cancelled" }),
+        practice("2026-07-21"),
+        practice("2026-07-28", { start: "2026-07-28T19:00:00-07:00" }),
+        practice("2026-08-04"),
+        {
+          ...practice("2026-08-08"),
+          id: "beers",
+          summary: "BC Beers",
+          recurringEventId: undefined,
+        },
+      ]),
+    );
+
+    expect(entries.map((e) => [e.event.id, e.recurrence])).toEqual([
+      ["cal-practice_20260707", "Tuesdays 6:30pm"],
+      ["cal-practice_20260714", null],
+      ["cal-practice_20260728", null],
+      ["cal-beers", null],
+    ]);
+  });
+});
@@ -0,0 +1,352 @@
+import { type CalendarEvent, isCancelled, isUlaxEvent } from "./calendar";
+import { formatInstant, formatTime, gameInstant, pacificDate, startOfDay, weekday } from "./date";
+import { type ScheduleSlot, sectionOf } from "./freshness";
+import { type NonLeagueGame, resultOf } from "./games";
+import { cleanTeamName } from "./team";
+import type { UlaxGame, UlaxSeasonData } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TeamEventKind =
+  | "game"
+  | "scrimmage"
+  | "tournament"
+  | "exhibition"
+  | "practice"
+  | "social"
+  | "event";
+
+interface TeamEventFields {
+  id: string; // "ulax-summer-2026-12", "game-<games.json id>" or "cal-<calendar event id>"
+  kind: TeamEventKind;
+  title: string; // "vs Olympic Club", "Practice"
+  date: string; // YYYY-MM-DD in Pacific time
+  start: string; // ISO datetime with Pacific offset; midnight when there's no time
+  allDay: boolean; // all-day entries and games whose time is TBD
+  location: string;
+  cancelled: boolean;
+  recurringEventId: string | null; // shared by every instance of a repeat
+}
+
+/**
+ * One thing on the team's schedule. League games come from ULAX and other
+ * games from src/data/games.json, each carrying the calendar entry for the
+ * same game when there is one; everything else comes from the calendar alone.
+ */
+export type TeamEvent = TeamEventFields &
+  (
+    | {
+        game: UlaxGame;
+        season: string; // "summer-2026"; ULAX reuses game ids from season to season
+        nonLeague: null;
+        calendarEvent: CalendarEvent | null;
+      }
+    | { game: null; season: null; nonLeague: NonLeagueGame; calendarEvent: CalendarEvent | null }
+    | { game: null; season: null; nonLeague: null; calendarEvent: CalendarEvent }
+  );
+
+export interface TimelineEntry {
+  event: TeamEvent; // the first occurrence when collapsed
+  recurrence: string | null; // e.g. "Tuesdays 6:30pm"
+  dates: string[]; // of every instance
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/** Head-to-head calendar entries like "BC vs. Cal" or "BC Playoffs vs Marin" */
+export function isGameEvent(event: CalendarEvent): boolean {
+  return /\bvs\b/i.test(event.summary);
+}
+
+export function isTbd(game: UlaxGame): boolean {
+  return game.homeTeam === "TBD" || game.awayTeam === "TBD";
+}
+
+// Postseason slots ULAX lists before the matchups are known; we may be in them
+function isTbdPlayoff(game: UlaxGame): boolean {
+  return game.gameType !== "regular" && isTbd(game);
+}
+
+function classify(event: CalendarEvent): TeamEventKind {
+  const summary = event.summary;
+  if (/tournament|shootout|invitational|classic\b|\bcup\b/i.test(summary)) return "tournament";
+  if (/exhibition|showcase/i.test(summary)) return "exhibition";
+  if (/scrimmage/i.test(summary) || isGameEvent(event)) return "scrimmage";
+  if (/practice|clinic|training/i.test(summary)) return "practice";
+  if (/beers|social|party|happy hour|bbq|banquet/i.test(summary)) return "social";
+  return "event";
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function opponentOf(game: UlaxGame): string {
+  return cleanTeamName(game.barbaryCoastIsHome ? game.awayTeam : game.homeTeam);
+}
+
+// Games are listed with a wall-clock time like "5:00 pm", or none while TBD
+function gameStart(
+  date: string,
+  time: string | undefined,
+): Pick<TeamEventFields, "start" | "allDay"> {
+  const instant = time === undefined ? null : gameInstant(date, time);
+  return {
+    start: formatInstant(instant ?? startOfDay(date)),
+    allDay: instant === null,
+  };
+}
+
+function fromGame(season: string, game: UlaxGame): TeamEvent {
+  return {
+    id: `ulax-${season}-${game.id}`,
+    kind: "game",
+    title: isTbd(game) ? game.typeName : `vs ${opponentOf(game)}`,
+    date: game.date,
+    ...gameStart(game.date, game.time),
+    location: game.field,
+    cancelled: false,
+    recurringEventId: null,
+    game,
+    season,
+    nonLeague: null,
+    calendarEvent: null,
+  };
+}
+
+function fromNonLeague(game: NonLeagueGame): TeamEvent {
+  return {
+    id: `game-${game.id}`,
+    kind: game.competition,
+    title: `vs ${game.opponent}`,
+    date: game.date,
+    ...gameStart(game.date, game.time),
+    location: game.location,
+    cancelled: false,
+    recurringEventId: null,
+    game: null,
+    season: null,
+    nonLeague: game,
+    calendarEvent: null,
+  };
+}
+
+function fromCalendar(event: CalendarEvent): TeamEvent {
+  // All-day dates have no zone; timed events are placed in Pacific time
+  const date = event.allDay ? event.start.slice(0, 10) : pacificDate(event.start);
+  return {
+    id: `cal-${event.id}`,
+    kind: classify(event),
+    title: event.summary,
+    date,
+    start: formatInstant(event.allDay ? startOfDay(date) : Date.parse(event.start)),
+    allDay: event.allDay,
+    location: event.location,
+    cancelled: isCancelled(event),
+    recurringEventId: event.recurringEventId ?? null,
+    game: null,
+    season: null,
+    nonLeague: null,
+    calendarEvent: event,
+  };
+}
+
+// Words that don't tell one club from another
+const GENERIC_WORDS = new Set(["lacrosse", "club", "lc", "the"]);
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a calendar summary names a ULAX team the way people write it:
+ * "SFLC" for San Francisco Lacrosse Club, "O Club" for Olympic Club, "Palo
+ * Alto" for Palo Alto Ducks.
+ */
+function mentions(summary: string, team: string): boolean {
+  const said = words(summary);
+  const name = words(cleanTeamName(team));
+  const initials = name.map((w) => w[0]).join("");
+  return (
+    said.includes(initials) ||
+    name.some(
+      (w) =>
+        !GENERIC_WORDS.has(w) && said.some((s) => s === w || (s.length === 1 && w.startsWith(s))),
+    )
+  );
+}
+
+function isGameEntry(entry: CalendarEvent): boolean {
+  return (
+    isGameEvent(entry) ||
+    isUlaxEvent(entry) ||
+    ["scrimmage", "exhibition"].includes(classify(entry))
+  );
+}
+
+/**
+ * Pair calendar entries for games ("BC vs. O Club", "ULAX Semis", "Scrimmage
+ * at Stanford") with the games on the same Pacific date; ULAX entries only
+ * pair with league games. Entries that name the opponent pair first, then
+ * whichever are nearest in start time, so a day with two games and an
+ * optional free-agent game sorts itself out.
+ */
+function linkGames(
+  games: readonly TeamEvent[],
+  entries: readonly CalendarEvent[],
+): Map<CalendarEvent, TeamEvent> {
+  const candidates = entries
+    .filter((e) => !e.allDay && isGameEntry(e))
+    .flatMap((entry) => {
+      const instant = Date.parse(entry.start);
+      const date = pacificDate(entry.start);
+      return games
+        .filter((g) => g.date === date && (g.game || !isUlaxEvent(entry)))
+        .map((game) => ({
+          entry,
+          game,
+          named: mentions(
+            entry.summary,
+            game.game ? opponentOf(game.game) : (game.nonLeague?.opponent ?? ""),
+          ),
+          distance: Math.abs(Date.parse(game.start) - instant),
+        }));
+    })
+    .sort((a, b) => Number(b.named) - Number(a.named) || a.distance - b.distance);
+
+  const linked = new Map<CalendarEvent, TeamEvent>();
+  const taken = new Set<TeamEvent>();
+  for (const { entry, game } of candidates) {
+    if (linked.has(entry) || taken.has(game)) continue;
+    linked.set(entry, game);
+    taken.add(game);
+  }
+  return linked;
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+/**
+ * Our games in the given ULAX seasons (keyed like "summer-2026") and calendar
+ * entries as one timeline in start order. A calendar entry for a league or
+ * non-league game is folded into that game, and ULAX entries with no game to
+ * match are dropped, so nothing shows up twice.
+ */
+export function buildTimeline(
+  seasons: Readonly<Record<string, Pick<UlaxSeasonData, "schedule">>>,
+  calendar: readonly CalendarEvent[],
+  nonLeague: readonly NonLeagueGame[] = [],
+): TeamEvent[] {
+  const ours = [
+    ...Object.entries(seasons).flatMap(([season, { schedule }]) =>
+      schedule.filter((g) => g.isBarbaryCoast || isTbdPlayoff(g)).map((g) => fromGame(season, g)),
+    ),
+    ...nonLeague.map(fromNonLeague),
+  ];
+  const linked = linkGames(ours, calendar);
+  const calendarFor = new Map([...linked].map(([entry, game]) => [game, entry]));
+
+  const events: TeamEvent[] = [
+    ...ours.map((g) => {
+      const entry = calendarFor.get(g);
+      return entry ? { ...g, location: g.location || entry.location, calendarEvent: entry } : g;
+    }),
+    ...calendar.filter((e) => !linked.has(e) && !isUlaxEvent(e)).map(fromCalendar),
+  ];
+  return events.sort(
+    (a, b) => Date.parse(a.start) - Date.parse(b.start) || a.id.localeCompare(b.id),
+  );
+}
+
+export function hasScore(game: UlaxGame): boolean {
+  return game.homeScore !== null && game.awayScore !== null;
+}
+
+function slotOf(event: TeamEvent, dates: readonly string[]): ScheduleSlot {
+  const played = event.game
+    ? hasScore(event.game)
+    : event.nonLeague !== null && resultOf(event.nonLeague) !== null;
+  return { dates: played ? [] : dates, pending: event.game !== null && !played };
+}
+
+/** Where a schedule entry goes as the days pass; see `sectionOf`. */
+export function scheduleSlot(entry: TimelineEntry): ScheduleSlot {
+  return slotOf(entry.event, entry.dates);
+}
+
+/** Still to come on `today` (YYYY-MM-DD): league games until they're scored. */
+export function isUpcoming(event: TeamEvent, today: string): boolean {
+  return sectionOf(slotOf(event, [event.date]), today) !== null;
+}
+
+// ============================================================================
+// Recurring events
+// ============================================================================
+
+const WEEKDAYS = [
+  "Sundays",
+  "Mondays",
+  "Tuesdays",
+  "Wednesdays",
+  "Thursdays",
+  "Fridays",
+  "Saturdays",
+];
+
+/** "6:30pm", "7pm"; empty for all-day events */
+function pacificTime(event: TeamEvent): string {
+  if (event.allDay) return "";
+  return formatTime(event.start).replace(":00", "").replace(/\s/g, "").toLowerCase();
+}
+
+/**
+ * Collapse the instances of each repeating event into one entry at its first
+ * occurrence, described like "Tuesdays 6:30pm" or "Tuesdays & Thursdays 7pm".
+ * Instances moved to another time are grouped separately, and cancelled
+ * instances always stand alone so they can be shown as called off.
+ */
+export function collapseRecurring(events: readonly TeamEvent[]): TimelineEntry[] {
+  const seriesKey = (event: TeamEvent) =>
+    event.recurringEventId && !event.cancelled
+      ? `${event.recurringEventId} ${pacificTime(event)}`
+      : null;
+
+  const series = new Map<string, TeamEvent[]>();
+  for (const event of events) {
+    const key = seriesKey(event);
+    if (key) series.set(key, [...(series.get(key) ?? []), event]);
+  }
+
+  const entries: TimelineEntry[] = [];
+  for (const event of events) {
+    const key = seriesKey(event);
+    const instances = key ? (series.get(key) ?? []) : [];
+    if (instances.length < 2) {
+      entries.push({ event, recurrence: null, dates: [event.date] });
+      continue;
+    }
+    if (instances[0] !== event) continue;
+
+    const days = [...new Set(instances.map((e) => weekday(e.date)))];
+    const time = pacificTime(event);
+    entries.push({
+      event,
+      recurrence: `${days
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAYS[d])
+        .join(" & ")}${time ? ` ${time}` : ""}`,
+      dates: instances.map((e) => e.date),
+    });
+  }
+  return entries;
+}
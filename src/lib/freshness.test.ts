@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { belongsIn, isStale, nextDate, sectionOf } from "./freshness";
+
+const on = (...dates: string[]) => ({ dates, pending: false });
+
+describe("sectionOf", () => {
+  test("moves entries from later to upcoming to gone as the days pass", () => {
+    const social = on("2026-11-20");
+
+    expect(sectionOf(social, "2026-10-20")).toBe("later");
+    expect(sectionOf(social, "2026-10-21")).toBe("upcoming");
+    expect(sectionOf(social, "2026-11-20")).toBe("upcoming");
+    expect(sectionOf(social, "2026-11-21")).toBeNull();
+  });
+
+  test("keeps an unscored league game upcoming whatever the date", () => {
+    expect(sectionOf({ dates: ["2026-06-14"], pending: true }, "2026-07-01")).toBe("upcoming");
+    expect(sectionOf({ dates: [], pending: false }, "2026-06-01")).toBeNull();
+  });
+
+  test("places a repeat by its next instance", () => {
+    const practices = on("2026-10-06", "2026-10-13", "2026-10-20");
+
+    expect(sectionOf(practices, "2026-10-14")).toBe("upcoming");
+    expect(sectionOf(practices, "2026-10-21")).toBeNull();
+    expect(belongsIn(on("2027-01-05"), "ahead", "2026-10-14")).toBe(true);
+    expect(belongsIn(on("2027-01-05"), "upcoming", "2026-10-14")).toBe(false);
+  });
+
+  test("finds a repeat's next instance", () => {
+    const practices = on("2026-10-06", "2026-10-13", "2026-10-20");
+
+    expect(nextDate(practices, "2026-10-06")).toBe("2026-10-06");
+    expect(nextDate(practices, "2026-10-07")).toBe("2026-10-13");
+    expect(nextDate(practices, "2026-10-21")).toBeNull();
+  });
+});
+
+describe("isStale", () => {
+  test("counts Pacific days since the last sync", () => {
+    // Synced at 10pm Pacific on the 15th, which is the 16th in UTC
+    const fetchedAt = "2026-10-16T05:00:00.000Z";
+
+    expect(isStale(fetchedAt, "2026-10-18")).toBe(false);
+    expect(isStale(fetchedAt, "2026-10-19")).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { addDays, daysBetween, pacificDate } from "./date";
+
+// Shared by the build and the browser, which re-checks the schedule against
+// the visitor's today so a page built last week doesn't go stale. Keep this
+// module free of data imports so it stays small in the page bundle.
+
+// ============================================================================
+// Schedule sections
+// ============================================================================
+
+/** Events further out than this go under "Later" on the schedule page. */
+export const LATER_AFTER_DAYS = 30;
+
+export type ScheduleSection = "upcoming" | "later";
+
+/**
+ * Where a schedule entry goes: the Pacific dates of its instances (one unless
+ * it's a collapsed repeat), and whether it's a league game waiting on a
+ * score, which stays upcoming whatever the date.
+ */
+export interface ScheduleSlot {
+  dates: readonly string[];
+  pending: boolean;
+}
+
+/** The first of an entry's dates on or after `today`; null once they're all past. */
+export function nextDate(slot: ScheduleSlot, today: string): string | null {
+  return slot.dates.find((date) => date >= today) ?? null;
+}
+
+/** The section an entry belongs in on `today` (YYYY-MM-DD); null once it's past. */
+export function sectionOf(slot: ScheduleSlot, today: string): ScheduleSection | null {
+  if (slot.pending) return "upcoming";
+  const next = nextDate(slot, today);
+  if (next === null) return null;
+  return next <= addDays(today, LATER_AFTER_DAYS) ? "upcoming" : "later";
+}
+
+/** Whether an entry shows in a list of one section, or of everything still ahead. */
+export function belongsIn(
+  slot: ScheduleSlot,
+  section: ScheduleSection | "ahead",
+  today: string,
+): boolean {
+  const placed = sectionOf(slot, today);
+  return placed !== null && (section === "ahead" || placed === section);
+}
+
+// ============================================================================
+// Data age
+// ============================================================================
+
+/** The syncs run nightly, so data this old means several have failed. */
+export const STALE_AFTER_DAYS = 3;
+
+export function isStale(fetchedAt: string, today: string): boolean {
+  return daysBetween(pacificDate(fetchedAt), today) > STALE_AFTER_DAYS;
+}
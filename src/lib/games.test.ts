@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { Either, Schema } from "effect";
+import { allGamesRecord, NonLeagueGames, recordOf } from "./games";
+
+const decode = (games: unknown[]) => Schema.decodeUnknownEither(NonLeagueGames)({ games });
+
+const scrimmage = (goalsFor: number | null, goalsAgainst: number | null, id = "stanford") => ({
+  id,
+  date: "2026-04-05",
+  time: "12:00 pm",
+  competition: "scrimmage",
+  opponent: "Stanford MCLA",
+  goalsFor,
+  goalsAgainst,
+});
+
+describe("NonLeagueGames", () => {
+  test("fills in what's left out before a game is played", () => {
+    const { games } = Either.getOrThrow(
+      decode([
+        { id: "vegas-2026", date: "2026-06-15", competition: "tournament", opponent: "Vegas Lax" },
+      ]),
+    );
+
+    expect(games[0]).toEqual({
+      id: "vegas-2026",
+      date: "2026-06-15",
+      competition: "tournament",
+      opponent: "Vegas Lax",
+      location: "",
+      goalsFor: null,
+      goalsAgainst: null,
+    });
+  });
+
+  test("rejects a half-entered score, a loose time or an unknown competition", () => {
+    expect(Either.isLeft(decode([scrimmage(8, null)]))).toBe(true);
+    expect(Either.isLeft(decode([{ ...scrimmage(8, 5), time: "noon" }]))).toBe(true);
+    expect(Either.isLeft(decode([{ ...scrimmage(8, 5), competition: "league" }]))).toBe(true);
+  });
+
+  test("needs a unique id in the id format for each game", () => {
+    expect(Either.isLeft(decode([scrimmage(8, 5, "Stanford April")]))).toBe(true);
+    expect(Either.isLeft(decode([scrimmage(8, 5), scrimmage(null, null)]))).toBe(true);
+  });
+});
+
+describe("recordOf", () => {
+  test("counts scored games and adds them to the league record for all games", () => {
+    const { games } = Either.getOrThrow(
+      decode([
+        scrimmage(8, 5, "a"),
+        scrimmage(4, 9, "b"),
+        scrimmage(6, 6, "c"),
+        scrimmage(null, null, "d"),
+      ]),
+    );
+    const league = { wins: 10, losses: 2, ties: 0, goalsFor: 120, goalsAgainst: 60 };
+
+    expect(recordOf(games)).toEqual({
+      wins: 1,
+      losses: 1,
+      ties: 1,
+      goalsFor: 18,
+      goalsAgainst: 20,
+    });
+    expect(allGamesRecord(league, games)).toEqual({
+      wins: 11,
+      losses: 3,
+      ties: 1,
+      goalsFor: 138,
+      goalsAgainst: 80,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Schema } from "effect";
+import gamesData from "../data/games.json";
+import { parseGameTime } from "./date";
+import type { GameResult } from "./opponents";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const Competition = Schema.Literal("scrimmage", "tournament", "exhibition");
+export type Competition = typeof Competition.Type;
+
+const Goals = Schema.optionalWith(Schema.NullOr(Schema.Int.pipe(Schema.nonNegative())), {
+  default: () => null,
+});
+
+/** A game outside ULAX, entered by hand in src/data/games.json. */
+export const NonLeagueGame = Schema.Struct({
+  // Short and unique, like "stanford-apr-2026"; keeps the game's calendar
+  // entry the same for subscribers if it's moved
+  id: Schema.String.pipe(Schema.pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/)),
+  date: Schema.String.pipe(Schema.pattern(/^\d{4}-\d{2}-\d{2}$/)), // Pacific
+  time: Schema.optional(
+    Schema.String.pipe(
+      Schema.filter(
+        (t) => parseGameTime(t) !== null || `expected a time like "2:00 pm", got "${t}"`,
+      ),
+    ),
+  ), // left out while TBD
+  competition: Competition,
+  opponent: Schema.NonEmptyTrimmedString,
+  event: Schema.optional(Schema.String), // tournament or showcase name
+  location: Schema.optionalWith(Schema.String, { default: () => "" }),
+  // Left out until the game is played
+  goalsFor: Goals,
+  goalsAgainst: Goals,
+}).pipe(
+  Schema.filter(
+    (g) =>
+      (g.goalsFor === null) === (g.goalsAgainst === null) ||
+      `${g.date} vs ${g.opponent}: enter both goalsFor and goalsAgainst`,
+  ),
+);
+export type NonLeagueGame = typeof NonLeagueGame.Type;
+
+export const NonLeagueGames = Schema.Struct({ games: Schema.Array(NonLeagueGame) }).pipe(
+  Schema.filter(({ games }) => {
+    const ids = games.map((g) => g.id);
+    const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+    return duplicate === undefined || `game id "${duplicate}" is used more than once`;
+  }),
+);
+
+/** Scrimmages, tournaments and exhibitions, from src/data/games.json. */
+export const NON_LEAGUE_GAMES: readonly NonLeagueGame[] =
+  Schema.decodeUnknownSync(NonLeagueGames)(gamesData).games;
+
+export interface GameRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+export function resultOf(game: NonLeagueGame): GameResult | null {
+  if (game.goalsFor === null || game.goalsAgainst === null) return null;
+  if (game.goalsFor === game.goalsAgainst) return "T";
+  return game.goalsFor > game.goalsAgainst ? "W" : "L";
+}
+
+/** Record across the scored games; unplayed ones don't count. */
+export function recordOf(games: readonly NonLeagueGame[]): GameRecord {
+  const record: GameRecord = { wins: 0, losses: 0, ties: 0, goalsFor: 0, goalsAgainst: 0 };
+  for (const game of games) {
+    const result = resultOf(game);
+    if (!result) continue;
+    if (result === "W") record.wins++;
+    else if (result === "L") record.losses++;
+    else record.ties++;
+    record.goalsFor += game.goalsFor ?? 0;
+    record.goalsAgainst += game.goalsAgainst ?? 0;
+  }
+  return record;
+}
+
+/**
+ * The league record with every non-league game added: the "all games" record.
+ * The league record itself stays as ULAX's standings have it.
+ */
+export function allGamesRecord(league: GameRecord, games: readonly NonLeagueGame[]): GameRecord {
+  const other = recordOf(games);
+  return {
+    wins: league.wins + other.wins,
+    losses: league.losses + other.losses,
+    ties: league.ties + other.ties,
+    goalsFor: league.goalsFor + other.goalsFor,
+    goalsAgainst: league.goalsAgainst + other.goalsAgainst,
+  };
+}
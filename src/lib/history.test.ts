@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import {
+  championsByYear,
+  computeAllTimeStats,
+  computeBarbaryCoastSummary,
+  formatSeasonLabel,
+} from "./history";
+import type { UlaxChampionship, UlaxGame, UlaxSeasonData } from "./ulax";
+
+const champion = (season: UlaxChampionship["season"], year: number, team: string) => ({
+  year,
+  season,
+  division: "Men's Field",
+  champion: team,
+});
+
+const game = (typeName: string, gameType: UlaxGame["gameType"]): UlaxGame => ({
+  id: 1,
+  date: "2025-03-01",
+  time: "5:00 pm",
+  field: "Beach Chalet",
+  awayTeam: "Palo Alto Ducks",
+  awayScore: 5,
+  homeTeam: "Barbary Coast",
+  homeScore: 4,
+  gameType,
+  typeName,
+  isBarbaryCoast: true,
+  barbaryCoastIsHome: true,
+});
+
+const season = (schedule: UlaxGame[] = []): UlaxSeasonData => ({
+  schedule,
+  standings: [{ team: "Barbary Coast", gp: 6, w: 4, l: 2, t: 0, pts: 8, gf: 50, ga: 30 }],
+  playerStats: [],
+  goalieStats: [],
+  roster: [],
+});
+
+describe("computeBarbaryCoastSummary", () => {
+  test("only counts titles from the same season and year", () => {
+    const championships = [champion("winter", 2025, "Barbary Coast")];
+
+    expect(computeBarbaryCoastSummary("winter-2025", season(), championships)?.isChampion).toBe(
+      true,
+    );
+    expect(computeBarbaryCoastSummary("winter-2024", season(), championships)?.isChampion).toBe(
+      false,
+    );
+  });
+
+  test("derives the playoff result from the schedule", () => {
+    expect(computeBarbaryCoastSummary("spring-2025", season(), [])?.result).toBe("Regular Season");
+    expect(
+      computeBarbaryCoastSummary("spring-2025", season([game("Semi-Finals", "playoff")]), [])
+        ?.result,
+    ).toBe("Playoffs");
+    expect(
+      computeBarbaryCoastSummary("spring-2025", season([game("Championship", "championship")]), [])
+        ?.result,
+    ).toBe("Finalist");
+  });
+
+  test("doesn't count a consolation game as making the playoffs", () => {
+    expect(
+      computeBarbaryCoastSummary("spring-2026", season([game("Consolation", "consolation")]), [])
+        ?.result,
+    ).toBe("Regular Season");
+  });
+});
+
+test("computeAllTimeStats sums seasons", () => {
+  const summary = computeBarbaryCoastSummary("winter-2025", season(), [
+    champion("winter", 2025, "Barbary Coast"),
+  ]);
+  if (!summary) throw new Error("expected a summary");
+
+  expect(computeAllTimeStats([summary, { ...summary, isChampion: false }])).toEqual({
+    wins: 8,
+    losses: 4,
+    ties: 0,
+    titles: 1,
+    goalsFor: 100,
+    goalsAgainst: 60,
+  });
+});
+
+test("championsByYear groups seasons under each year, newest first", () => {
+  const years = championsByYear([
+    champion("winter", 2024, "SFLC Black"),
+    champion("summer", 2025, "Barbary Coast"),
+    champion("winter", 2025, "Barbary Coast"),
+  ]);
+
+  expect(years.map((y) => y.year)).toEqual([2025, 2024]);
+  expect(years[0].champions.summer?.champion).toBe("Barbary Coast");
+  expect(years[0].champions.spring).toBeUndefined();
+});
+
+test("formatSeasonLabel capitalizes the season", () => {
+  expect(formatSeasonLabel("winter-2026")).toBe("Winter 2026");
+});
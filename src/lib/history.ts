@@ -0,0 +1,121 @@
+import { isOurTeam } from "./team";
+import type {
+  BarbaryCoastAllTime,
+  BarbaryCoastSeasonSummary,
+  Season,
+  UlaxChampionship,
+  UlaxSeasonData,
+} from "./ulax";
+
+// ============================================================================
+// Season summaries
+// ============================================================================
+
+const SEASON_ORDER: Record<Season, number> = { winter: 0, spring: 1, summer: 2 };
+
+/** Chronological sort key for "winter-2026" style season keys. */
+export function seasonSortKey(key: string): number {
+  const [season, year] = key.split("-");
+  return Number(year) * 10 + (SEASON_ORDER[season as Season] ?? 0);
+}
+
+/** "winter-2026" -> "Winter 2026" */
+export function formatSeasonLabel(key: string): string {
+  const [season, year] = key.split("-");
+  return `${season.charAt(0).toUpperCase() + season.slice(1)} ${year}`;
+}
+
+export function championshipSeasonKey(c: UlaxChampionship): string {
+  return `${c.season}-${c.year}`;
+}
+
+/**
+ * Summarize Barbary Coast's season from its standings row. Playoff results come
+ * from the schedule: any non-regular-season game means a playoff appearance,
+ * and playing in the title game without winning it makes us finalists.
+ */
+export function computeBarbaryCoastSummary(
+  seasonKey: string,
+  data: UlaxSeasonData,
+  championships: readonly UlaxChampionship[],
+): BarbaryCoastSeasonSummary | null {
+  const bc = data.standings.find((s) => isOurTeam(s.team));
+  if (!bc) return null;
+
+  const isChampion = championships.some(
+    (c) => isOurTeam(c.champion) && championshipSeasonKey(c) === seasonKey,
+  );
+
+  // Consolation games are for the teams that missed the bracket
+  const bcPostseason = data.schedule.filter(
+    (g) => g.isBarbaryCoast && (g.gameType === "playoff" || g.gameType === "championship"),
+  );
+  const playedFinal = bcPostseason.some((g) => g.gameType === "championship");
+
+  let result = "Regular Season";
+  if (isChampion) {
+    result = "Champions";
+  } else if (playedFinal) {
+    result = "Finalist";
+  } else if (bcPostseason.length > 0) {
+    result = "Playoffs";
+  }
+
+  return {
+    season: seasonKey,
+    wins: bc.w,
+    losses: bc.l,
+    ties: bc.t,
+    goalsFor: bc.gf,
+    goalsAgainst: bc.ga,
+    result,
+    isChampion,
+  };
+}
+
+export function computeBarbaryCoastSeasons(
+  seasons: Record<string, UlaxSeasonData>,
+  championships: readonly UlaxChampionship[],
+): BarbaryCoastSeasonSummary[] {
+  const summaries: BarbaryCoastSeasonSummary[] = [];
+  for (const [key, data] of Object.entries(seasons)) {
+    const summary = computeBarbaryCoastSummary(key, data, championships);
+    if (summary) summaries.push(summary);
+  }
+  return summaries.sort((a, b) => seasonSortKey(b.season) - seasonSortKey(a.season));
+}
+
+// Aggregate all-time stats
+export function computeAllTimeStats(seasons: BarbaryCoastSeasonSummary[]): BarbaryCoastAllTime {
+  return seasons.reduce(
+    (acc, s) => ({
+      wins: acc.wins + s.wins,
+      losses: acc.losses + s.losses,
+      ties: acc.ties + s.ties,
+      titles: acc.titles + (s.isChampion ? 1 : 0),
+      goalsFor: acc.goalsFor + s.goalsFor,
+      goalsAgainst: acc.goalsAgainst + s.goalsAgainst,
+    }),
+    { wins: 0, losses: 0, ties: 0, titles: 0, goalsFor: 0, goalsAgainst: 0 },
+  );
+}
+
+// ============================================================================
+// League champions
+// ============================================================================
+
+export interface ChampionsYear {
+  year: number;
+  champions: Partial<Record<Season, UlaxChampionship>>;
+}
+
+/** League champions grouped by year, newest first. */
+export function championsByYear(championships: readonly UlaxChampionship[]): ChampionsYear[] {
+  const years = new Map<number, ChampionsYear>();
+  for (const c of championships) {
+    const entry = years.get(c.year) ?? { year: c.year, champions: {} };
+    entry.champions[c.season] ??= c;
+    years.set(c.year, entry);
+  }
+  return [...years.values()].sort((a, b) => b.year - a.year);
+}
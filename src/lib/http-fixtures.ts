@@ -0,0 +1,129 @@
+import {
+  FileSystem,
+  HttpClient,
+  HttpClientError,
+  HttpClientRequest,
+  HttpClientResponse,
+  Path,
+} from "@effect/platform";
+import { Effect, Layer, Option } from "effect";
+
+// ============================================================================
+// Fixture naming
+// ============================================================================
+
+const FIXTURE_EXTENSIONS = { ".json": "application/json", ".html": "text/html" } as const;
+
+type FixtureExtension = keyof typeof FIXTURE_EXTENSIONS;
+
+/**
+ * Map a request URL to a stable, filesystem-safe fixture name (without extension).
+ * "https://ulax.org/sanfrancisco/men/winter/standings" -> "ulax.org_sanfrancisco_men_winter_standings"
+ */
+export function fixtureName(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.host}${parsed.pathname}${parsed.search}`
+    .replace(/[^a-zA-Z0-9.-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function extensionFor(contentType: string | undefined, body: string): FixtureExtension {
+  if (contentType?.includes("json")) return ".json";
+  const trimmed = body.trimStart();
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? ".json" : ".html";
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * HttpClient that serves saved responses from `dirs` instead of the network,
+ * taking each from the first directory that has it. Drop-in replacement for
+ * `FetchHttpClient.layer` in tests; a request without a fixture fails with a
+ * transport error naming the file it looked for.
+ */
+export const fixtureLayer = (...dirs: string[]) =>
+  Layer.effect(
+    HttpClient.HttpClient,
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const path = yield* Path.Path;
+
+      const readFixture = (request: HttpClientRequest.HttpClientRequest, url: URL) =>
+        Effect.gen(function* () {
+          const name = fixtureName(url.toString());
+          for (const dir of dirs) {
+            for (const [ext, contentType] of Object.entries(FIXTURE_EXTENSIONS)) {
+              const filePath = path.join(dir, `${name}${ext}`);
+              if (yield* fs.exists(filePath)) {
+                const body = yield* fs.readFileString(filePath);
+                return HttpClientResponse.fromWeb(
+                  request,
+                  new Response(body, { status: 200, headers: { "content-type": contentType } }),
+                );
+              }
+            }
+          }
+          return yield* new HttpClientError.RequestError({
+            request,
+            reason: "Transport",
+            description: `No fixture for ${url} (expected ${name}.json or ${name}.html in ${dirs.join(" or ")}). Run \`bun run fixtures:record\` to capture it.`,
+          });
+        }).pipe(
+          Effect.catchTag("SystemError", "BadArgument", (cause) =>
+            Effect.fail(
+              new HttpClientError.RequestError({
+                request,
+                reason: "Transport",
+                cause,
+                description: `Failed to read fixture for ${url}`,
+              }),
+            ),
+          ),
+        );
+
+      return HttpClient.make((request, url) => readFixture(request, url));
+    }),
+  );
+
+// ============================================================================
+// Record
+// ============================================================================
+
+/**
+ * Wraps the provided HttpClient and writes every successful response body to
+ * `dir`, named so that `fixtureLayer(dir)` will replay it.
+ */
+export const recordingLayer = (dir: string) =>
+  Layer.effect(
+    HttpClient.HttpClient,
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const fs = yield* FileSystem.FileSystem;
+      const path = yield* Path.Path;
+
+      yield* fs.makeDirectory(dir, { recursive: true });
+
+      return HttpClient.transform(client, (effect, request) =>
+        Effect.tap(effect, (response) =>
+          Effect.gen(function* () {
+            if (response.status >= 400) return;
+            const url = Option.match(HttpClientRequest.toUrl(request), {
+              onNone: () => request.url,
+              onSome: (u) => u.toString(),
+            });
+            const body = yield* response.text;
+            const ext = extensionFor(response.headers["content-type"], body);
+            const filePath = path.join(dir, `${fixtureName(url)}${ext}`);
+            yield* fs.writeFileString(filePath, body);
+            yield* Effect.logInfo(`Recorded ${url} -> ${filePath}`);
+          }).pipe(
+            Effect.catchAll((cause) =>
+              Effect.logWarning(`Failed to record fixture for ${request.url}: ${cause}`),
+            ),
+          ),
+        ),
+      );
+    }),
+  );
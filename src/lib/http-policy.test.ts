@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  HttpClient,
+  HttpClientError,
+  type HttpClientRequest,
+  HttpClientResponse,
+} from "@effect/platform";
+import { BunContext } from "@effect/platform-bun";
+import { Effect, Either, Layer, Logger, LogLevel } from "effect";
+import { type HttpPolicyOptions, httpPolicyLayer } from "./http-policy";
+
+type Reply = number | "network" | "hang";
+
+/** Fake server that answers each request with the next scripted reply. */
+function fakeServer(replies: Reply[]) {
+  const calls: string[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const respond = (request: HttpClientRequest.HttpClientRequest, url: URL) =>
+    Effect.gen(function* () {
+      calls.push(url.toString());
+      const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      yield* Effect.sleep(reply === "hang" ? "1 minute" : "5 millis");
+      inFlight--;
+
+      if (reply === "network" || reply === "hang") {
+        return yield* new HttpClientError.RequestError({ request, reason: "Transport" });
+      }
+      return HttpClientResponse.fromWeb(
+        request,
+        new Response(`body ${calls.length}`, { status: reply }),
+      );
+    }).pipe(Effect.onInterrupt(() => Effect.sync(() => inFlight--)));
+
+  const layer = Layer.succeed(HttpClient.HttpClient, HttpClient.make(respond));
+  return { layer, calls, maxInFlight: () => maxInFlight };
+}
+
+const FAST = { baseDelay: "1 millis", timeout: "200 millis" } satisfies HttpPolicyOptions;
+
+const get = (
+  server: ReturnType<typeof fakeServer>,
+  options: HttpPolicyOptions,
+  urls: string[] = ["https://ulax.org/standings"],
+) =>
+  Effect.runPromise(
+    Effect.forEach(
+      urls,
+      (url) =>
+        HttpClient.get(url).pipe(
+          Effect.flatMap((response) =>
+            Effect.map(response.text, (body) => ({ status: response.status, body })),
+          ),
+          Effect.either,
+        ),
+      { concurrency: "unbounded" },
+    ).pipe(
+      Effect.provide(
+        httpPolicyLayer(options).pipe(
+          Layer.provide(Layer.mergeAll(server.layer, BunContext.layer)),
+        ),
+      ),
+      Logger.withMinimumLogLevel(LogLevel.Error),
+    ),
+  );
+
+describe("httpPolicyLayer", () => {
+  test("retries server and network errors until a response succeeds", async () => {
+    const server = fakeServer([503, "network", 200]);
+    const [result] = await get(server, FAST);
+
+    expect(Either.getOrThrow(result)).toEqual({ status: 200, body: "body 3" });
+    expect(server.calls).toHaveLength(3);
+  });
+
+  test("gives up after the configured retries", async () => {
+    const server = fakeServer([500]);
+    const [result] = await get(server, { ...FAST, retries: 2 });
+
+    expect(Either.isLeft(result)).toBe(true);
+    expect(server.calls).toHaveLength(3);
+  });
+
+  test("passes client errors straight through", async () => {
+    const server = fakeServer([404]);
+    const [result] = await get(server, FAST);
+
+    expect(Either.getOrThrow(result).status).toBe(404);
+    expect(server.calls).toHaveLength(1);
+  });
+
+  test("times out each attempt", async () => {
+    const server = fakeServer(["hang", 200]);
+    const [result] = await get(server, { ...FAST, timeout: "20 millis" });
+
+    expect(Either.getOrThrow(result).status).toBe(200);
+    expect(server.calls).toHaveLength(2);
+  });
+
+  test("caps concurrent requests to the same host", async () => {
+    const server = fakeServer([200]);
+    const urls = Array.from({ length: 6 }, (_, i) => `https://ulax.org/page/${i}`);
+    await get(server, { ...FAST, maxConcurrentPerHost: 2 }, urls);
+
+    expect(server.calls).toHaveLength(6);
+    expect(server.maxInFlight()).toBe(2);
+  });
+
+  describe("cache", () => {
+    let dir: string;
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "http-cache-"));
+    });
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("reuses a saved response until it expires", async () => {
+      const server = fakeServer([200]);
+
+      await get(server, { ...FAST, cache: { dir, ttl: "1 hour" } });
+      const [cached] = await get(server, { ...FAST, cache: { dir, ttl: "1 hour" } });
+      expect(Either.getOrThrow(cached).body).toBe("body 1");
+      expect(server.calls).toHaveLength(1);
+
+      const [expired] = await get(server, { ...FAST, cache: { dir, ttl: 0 } });
+      expect(Either.getOrThrow(expired).body).toBe("body 2");
+    });
+
+    test("doesn't save failed responses", async () => {
+      const server = fakeServer([404]);
+
+      await get(server, { ...FAST, cache: { dir, ttl: "1 hour" } });
+      await get(server, { ...FAST, cache: { dir, ttl: "1 hour" } });
+      expect(server.calls).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { createHash } from "node:crypto";
+import {
+  FileSystem,
+  HttpClient,
+  HttpClientError,
+  HttpClientRequest,
+  HttpClientResponse,
+  Path,
+} from "@effect/platform";
+import { Clock, Duration, Effect, Layer, Option, Schedule } from "effect";
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export interface HttpPolicyOptions {
+  // Per attempt, including reading the body
+  readonly timeout?: Duration.DurationInput;
+  // Retries after the first attempt, for 5xx, 429 and network errors
+  readonly retries?: number;
+  // First retry delay; doubles each time, with jitter
+  readonly baseDelay?: Duration.DurationInput;
+  readonly maxConcurrentPerHost?: number;
+  // Successful GET responses are saved here and reused until `ttl` has passed
+  readonly cache?: { readonly dir: string; readonly ttl: Duration.DurationInput };
+}
+
+const DEFAULTS = {
+  timeout: "20 seconds",
+  retries: 3,
+  baseDelay: "500 millis",
+  maxConcurrentPerHost: 4,
+} satisfies HttpPolicyOptions;
+
+/** Cache for local syncs (`--cache`): tmp/ is git-ignored. */
+export const LOCAL_CACHE = {
+  dir: "tmp/http-cache",
+  ttl: "1 hour",
+} satisfies HttpPolicyOptions["cache"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface CachedResponse {
+  status: number;
+  contentType: string;
+  body: string;
+  storedAt: number; // epoch millis
+}
+
+// Hashed so query-string API keys don't end up in file names
+function cacheKey(url: string): string {
+  return createHash("sha256").update(url).digest("hex").slice(0, 32);
+}
+
+function isRetryable(error: HttpClientError.HttpClientError): boolean {
+  if (error._tag === "RequestError") return error.reason === "Transport";
+  return (
+    error.reason === "StatusCode" && (error.response.status >= 500 || error.response.status === 429)
+  );
+}
+
+/**
+ * Read the whole body inside the attempt so the timeout covers it and the
+ * response can be cached, then hand back a fresh response over the text.
+ */
+const buffer = (response: HttpClientResponse.HttpClientResponse) =>
+  Effect.map(response.text, (body) => ({
+    status: response.status,
+    contentType: response.headers["content-type"] ?? "",
+    body,
+  }));
+
+const toResponse = (
+  request: HttpClientRequest.HttpClientRequest,
+  cached: Omit<CachedResponse, "storedAt">,
+) =>
+  HttpClientResponse.fromWeb(
+    request,
+    new Response(cached.body, {
+      status: cached.status,
+      headers: cached.contentType ? { "content-type": cached.contentType } : {},
+    }),
+  );
+
+// ============================================================================
+// Layer
+// ============================================================================
+
+/**
+ * Wraps the provided HttpClient with the policy every sync shares: a timeout
+ * per attempt, exponential-backoff retries on server and network errors, a cap
+ * on requests in flight to each host, and an optional on-disk cache keyed by
+ * URL. Non-retryable responses such as 404 are passed through untouched.
+ */
+export const httpPolicyLayer = (options: HttpPolicyOptions = {}) =>
+  Layer.effect(
+    HttpClient.HttpClient,
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const fs = yield* FileSystem.FileSystem;
+      const path = yield* Path.Path;
+      const { timeout, retries, baseDelay, maxConcurrentPerHost } = { ...DEFAULTS, ...options };
+
+      const hosts = new Map<string, Effect.Semaphore>();
+      const permitFor = (host: string) => {
+        let semaphore = hosts.get(host);
+        if (!semaphore) {
+          semaphore = Effect.unsafeMakeSemaphore(maxConcurrentPerHost);
+          hosts.set(host, semaphore);
+        }
+        return semaphore.withPermits(1);
+      };
+
+      const cache = options.cache;
+      if (cache) yield* fs.makeDirectory(cache.dir, { recursive: true });
+      const cachePath = (url: string) => path.join(cache?.dir ?? "", `${cacheKey(url)}.json`);
+
+      // Cache problems only cost a network request, so they're never fatal
+      const readCache = (url: string) =>
+        Effect.gen(function* () {
+          if (!cache) return null;
+          const filePath = cachePath(url);
+          if (!(yield* fs.exists(filePath))) return null;
+          const cached = JSON.parse(yield* fs.readFileString(filePath)) as CachedResponse;
+          const now = yield* Clock.currentTimeMillis;
+          return now - cached.storedAt < Duration.toMillis(cache.ttl) ? cached : null;
+        }).pipe(Effect.orElseSucceed(() => null));
+
+      const writeCache = (url: string, response: Omit<CachedResponse, "storedAt">) =>
+        Effect.gen(function* () {
+          if (!cache || response.status !== 200) return;
+          const storedAt = yield* Clock.currentTimeMillis;
+          yield* fs.writeFileString(cachePath(url), JSON.stringify({ ...response, storedAt }));
+        }).pipe(Effect.catchAll((cause) => Effect.logWarning(`Failed to cache ${url}: ${cause}`)));
+
+      return HttpClient.transform(client, (effect, request) => {
+        const url = HttpClientRequest.toUrl(request);
+        const key = Option.match(url, { onNone: () => request.url, onSome: (u) => u.toString() });
+        const host = Option.match(url, { onNone: () => request.url, onSome: (u) => u.host });
+
+        const attempt = effect.pipe(
+          Effect.flatMap((response) =>
+            response.status >= 500 || response.status === 429
+              ? Effect.fail(
+                  new HttpClientError.ResponseError({
+                    request,
+                    response,
+                    reason: "StatusCode",
+                    description: `${response.status} from ${key}`,
+                  }),
+                )
+              : buffer(response),
+          ),
+          Effect.timeoutFail({
+            duration: timeout,
+            onTimeout: () =>
+              new HttpClientError.RequestError({
+                request,
+                reason: "Transport",
+                description: `Timed out after ${Duration.format(timeout)}: ${key}`,
+              }),
+          }),
+          permitFor(host),
+        );
+
+        const fetched = attempt.pipe(
+          Effect.retry({
+            schedule: Schedule.exponential(baseDelay).pipe(Schedule.jittered),
+            times: retries,
+            while: isRetryable,
+          }),
+          Effect.tap((response) =>
+            request.method === "GET" ? writeCache(key, response) : Effect.void,
+          ),
+        );
+
+        return Effect.gen(function* () {
+          const cached = request.method === "GET" ? yield* readCache(key) : null;
+          return toResponse(request, cached ?? (yield* fetched));
+        });
+      });
+    }),
+  );
@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HttpClient, HttpClientResponse } from "@effect/platform";
+import { BunContext } from "@effect/platform-bun";
+import { Effect, Either, Layer, Option } from "effect";
+import { CalendarService } from "./calendar";
+import { icsCalendarLayer, icsToEvents } from "./ics-calendar";
+
+const ics = (...lines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+
+const parse = (text: string, window?: { timeMin?: string; timeMax?: string }) => {
+  const events = icsToEvents(text, { now: NOW, window });
+  if (!events) throw new Error("not iCalendar");
+  return events;
+};
+
+describe("icsToEvents", () => {
+  test("reads a one-off event with folded, escaped text", () => {
+    const [event] = parse(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:abc123@google.com",
+        "DTSTART;TZID=America/Los_Angeles:20260725T170000",
+        "DTEND;TZID=America/Los_Angeles:20260725T190000",
+        "SUMMARY:BC Beers\\, on us",
+        "DESCRIPTION:Bring a friend.\\nFirst round is",
+        "  on the club",
+        "LOCATION:Zeitgeist",
+        "LAST-MODIFIED:20260701T120000Z",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(event).toEqual({
+      id: "abc123",
+      summary: "BC Beers, on us",
+      description: "Bring a friend.\nFirst round is on the club",
+      location: "Zeitgeist",
+      start: "2026-07-25T17:00:00-07:00",
+      end: "2026-07-25T19:00:00-07:00",
+      allDay: false,
+      status: "confirmed",
+      recurringEventId: undefined,
+      htmlLink: undefined,
+      updated: "2026-07-01T12:00:00.000Z",
+    });
+  });
+
+  test("converts other zones and UTC to the calendar's time", () => {
+    const events = parse(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:east",
+        "DTSTART;TZID=America/New_York:20260725T170000",
+        "DURATION:PT1H30M",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:utc",
+        "DTSTART:20260726T010000Z",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(events.map((e) => [e.start, e.end])).toEqual([
+      ["2026-07-25T14:00:00-07:00", "2026-07-25T15:30:00-07:00"],
+      ["2026-07-25T18:00:00-07:00", "2026-07-25T18:00:00-07:00"],
+    ]);
+  });
+
+  test("keeps all-day events as dates", () => {
+    const [event] = parse(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:tournament",
+        "DTSTART;VALUE=DATE:20260815",
+        "DTEND;VALUE=DATE:20260817",
+        "SUMMARY:Vegas Shootout",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(event).toMatchObject({ start: "2026-08-15", end: "2026-08-17", allDay: true });
+  });
+
+  test("expands a weekly repeat in wall-clock time across DST", () => {
+    const events = parse(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:practice@google.com",
+        "DTSTART;TZID=America/Los_Angeles:20261027T183000",
+        "DTEND;TZID=America/Los_Angeles:20261027T200000",
+        "RRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4",
+        "SUMMARY:Practice",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(events.map((e) => [e.id, e.start])).toEqual([
+      ["practice_20261028T013000Z", "2026-10-27T18:30:00-07:00"],
+      ["practice_20261030T013000Z", "2026-10-29T18:30:00-07:00"],
+      // Clocks go back on November 1st
+      ["practice_20261104T023000Z", "2026-11-03T18:30:00-08:00"],
+      ["practice_20261106T023000Z", "2026-11-05T18:30:00-08:00"],
+    ]);
+    expect(events.every((e) => e.recurringEventId === "practice")).toBe(true);
+  });
+
+  test("applies EXDATE, UNTIL and moved or cancelled instances", () => {
+    const events = parse(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:practice",
+        "DTSTART;TZID=America/Los_Angeles:20260707T183000",
+        "DTEND;TZID=America/Los_Angeles:20260707T200000",
+        "RRULE:FREQ=WEEKLY;UNTIL=20260805T065959Z",
+        "EXDATE;TZID=America/Los_Angeles:20260714T183000",
+        "SUMMARY:Practice",
+        "LOCATION:Kezar",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:practice",
+        "RECURRENCE-ID;TZID=America/Los_Angeles:20260721T183000",
+        "DTSTART;TZID=America/Los_Angeles:20260721T190000",
+        "DTEND;TZID=America/Los_Angeles:20260721T203000",
+        "SUMMARY:Practice",
+        "LOCATION:Polo Fields",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:practice",
+        "RECURRENCE-ID;TZID=America/Los_Angeles:20260728T183000",
+        "DTSTART;TZID=America/Los_Angeles:20260728T183000",
+        "STATUS:CANCELLED",
+        "SUMMARY:Practice",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(events.map((e) => [e.start, e.location, e.status])).toEqual([
+      ["2026-07-07T18:30:00-07:00", "Kezar", "confirmed"],
+      ["2026-07-21T19:00:00-07:00", "Polo Fields", "confirmed"],
+      ["2026-07-28T18:30:00-07:00", "", "cancelled"],
+      ["2026-08-04T18:30:00-07:00", "Kezar", "confirmed"],
+    ]);
+    expect(events[1].id).toBe("practice_20260722T013000Z");
+  });
+
+  test("picks nth weekdays of the month", () => {
+    const events = parse(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:meeting",
+        "DTSTART;TZID=America/Los_Angeles:20260602T190000",
+        "RRULE:FREQ=MONTHLY;BYDAY=1TU,-1FR;COUNT=5",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(events.map((e) => e.start.slice(0, 10))).toEqual([
+      "2026-06-02",
+      "2026-06-26",
+      "2026-07-07",
+      "2026-07-31",
+      "2026-08-04",
+    ]);
+  });
+
+  test("stops open-ended repeats at the window or a year out", () => {
+    const weekly = ics(
+      "BEGIN:VEVENT",
+      "UID:practice",
+      "DTSTART;TZID=America/Los_Angeles:20260602T183000",
+      "RRULE:FREQ=WEEKLY",
+      "END:VEVENT",
+    );
+
+    expect(parse(weekly)).toHaveLength(52);
+    expect(
+      parse(weekly, {
+        timeMin: "2026-07-01T00:00:00-07:00",
+        timeMax: "2026-08-01T00:00:00-07:00",
+      }).map((e) => e.start.slice(0, 10)),
+    ).toEqual(["2026-07-07", "2026-07-14", "2026-07-21", "2026-07-28"]);
+  });
+
+  test("returns null for something that isn't iCalendar", () => {
+    expect(icsToEvents("<html>Not found</html>", { now: NOW })).toBeNull();
+  });
+});
+
+describe("icsCalendarLayer", () => {
+  const FEED = ics(
+    "BEGIN:VEVENT",
+    "UID:beers",
+    "DTSTART:20260726T000000Z",
+    "SUMMARY:BC Beers",
+    "END:VEVENT",
+  );
+
+  const fetchFrom = (location: string, body = FEED) =>
+    Effect.runPromise(
+      Effect.flatMap(CalendarService, (s) => s.syncEvents("ignored")).pipe(
+        Effect.provide(
+          icsCalendarLayer(location).pipe(
+            Layer.provide(
+              Layer.mergeAll(
+                BunContext.layer,
+                Layer.succeed(
+                  HttpClient.HttpClient,
+                  HttpClient.make((request) =>
+                    Effect.succeed(HttpClientResponse.fromWeb(request, new Response(body))),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        ),
+        Effect.either,
+      ),
+    );
+
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ics-"));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads a feed URL or a local file, always as a full sync", async () => {
+    const file = join(dir, "team.ics");
+    writeFileSync(file, FEED);
+
+    for (const location of ["webcal://example.com/team.ics", file]) {
+      const sync = Either.getOrThrow(await fetchFrom(location));
+      expect(sync).toMatchObject({ full: true, deleted: [], nextSyncToken: null });
+      expect(sync.events.map((e) => e.summary)).toEqual(["BC Beers"]);
+    }
+  });
+
+  test("fails on a missing file or a page that isn't a calendar", async () => {
+    const missing = await fetchFrom(join(dir, "missing.ics"));
+    const html = await fetchFrom("https://example.com/team.ics", "<html>Moved</html>");
+
+    expect(Either.getLeft(missing).pipe(Option.getOrThrow)._tag).toBe("HttpError");
+    expect(Either.getLeft(html).pipe(Option.getOrThrow)._tag).toBe("UnexpectedResponseError");
+  });
+});
@@ -0,0 +1,573 @@
+import { FileSystem, HttpClient } from "@effect/platform";
+import { Clock, Effect, Layer } from "effect";
+import {
+  applyCalendarSync,
+  type CalendarEvent,
+  CalendarService,
+  type CalendarSync,
+  type TimeWindow,
+} from "./calendar";
+import {
+  addDays,
+  daysBetween,
+  daysInMonth,
+  formatInstant,
+  isKnownZone,
+  TIMEZONE,
+  toInstant,
+  wallClock,
+  weekday,
+} from "./date";
+import { getText, HttpError, snippet, UnexpectedResponseError } from "./errors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+/** A DATE or DATE-TIME value as written, before it's placed on the timeline. */
+interface IcsDateTime {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM:SS; null for all-day dates
+  zone: string; // IANA zone the wall-clock time is in
+}
+
+interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: IcsDateTime | null;
+  byDay: { nth: number | null; weekday: number }[]; // weekday 0 = Sunday
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+export interface IcsParseOptions {
+  window?: TimeWindow;
+  now: number; // epoch millis; open-ended repeats are expanded a year past it
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HORIZON_DAYS = 365;
+// Bounds a rule that never matches, e.g. the 31st of every February
+const MAX_PERIODS = 5000;
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** Join folded continuation lines (RFC 5545 §3.1). */
+function unfold(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+function parseLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** The VCALENDAR in an iCalendar file, or null if there isn't one. */
+export function parseIcs(text: string): IcsComponent | null {
+  const root: IcsComponent = { name: "", properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of unfold(text)) {
+    const property = parseLine(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+
+    if (property.name === "BEGIN") {
+      const component = { name: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root.components.find((c) => c.name === "VCALENDAR") ?? null;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+function property(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+function text(component: IcsComponent, name: string): string {
+  const found = property(component, name);
+  return found ? unescapeText(found.value) : "";
+}
+
+// ============================================================================
+// Dates and zones
+// ============================================================================
+
+function instantOf(value: IcsDateTime): number {
+  return toInstant(value.date, value.time ?? "00:00:00", value.zone);
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** 20260714, 20260714T183000 or 20260714T013000Z, in TZID or else `zone`. */
+function parseDateTime(value: string, tzid: string | undefined, zone: string): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hour) return { date, time: null, zone };
+  return {
+    date,
+    time: `${hour}:${minute}:${second}`,
+    zone: utc ? "UTC" : tzid && isKnownZone(tzid) ? tzid : zone,
+  };
+}
+
+function dateTimeProperty(prop: IcsProperty | undefined, zone: string): IcsDateTime | null {
+  return prop ? parseDateTime(prop.value, prop.params.TZID, zone) : null;
+}
+
+// EXDATE and RDATE may repeat and hold comma-separated lists
+function dateTimeList(component: IcsComponent, name: string, zone: string): IcsDateTime[] {
+  return component.properties
+    .filter((p) => p.name === name)
+    .flatMap((p) => p.value.split(",").map((v) => parseDateTime(v, p.params.TZID, zone)))
+    .filter((v): v is IcsDateTime => v !== null);
+}
+
+/** P1D, PT1H30M, P1W */
+function parseDuration(value: string): number | null {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((m) => m ?? "0");
+  const ms =
+    (((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60_000 +
+    Number(seconds) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+// ============================================================================
+// Recurrence
+// ============================================================================
+
+function parseRule(value: string, zone: string): RecurrenceRule | null {
+  const parts = Object.fromEntries(
+    value.split(";").map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.toUpperCase(), rest.join("=")];
+    }),
+  );
+  const freq = parts.FREQ?.toUpperCase();
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+  const numbers = (list: string | undefined) =>
+    (list ?? "").split(",").filter(Boolean).map(Number).filter(Number.isInteger);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : null,
+    until: parts.UNTIL ? parseDateTime(parts.UNTIL, undefined, zone) : null,
+    byDay: (parts.BYDAY ?? "")
+      .split(",")
+      .map((day) =>
+        day
+          .trim()
+          .toUpperCase()
+          .match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/),
+      )
+      .filter((m) => m !== null)
+      .map((m) => ({
+        nth: m[1] ? Number(m[1]) : null,
+        weekday: WEEKDAY_CODES.indexOf(m[2]),
+      })),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+  };
+}
+
+/** Days of a month the rule picks, from BYMONTHDAY, BYDAY or the start's day. */
+function monthDates(rule: RecurrenceRule, year: number, month: number, startDay: number) {
+  const last = daysInMonth(year, month);
+  const all = Array.from({ length: last }, (_, i) => ymd(year, month, i + 1));
+
+  if (rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay
+      .map((d) => (d < 0 ? last + d + 1 : d))
+      .filter((d) => d >= 1 && d <= last)
+      .map((d) => ymd(year, month, d));
+    return rule.byDay.length > 0
+      ? days.filter((date) => rule.byDay.some((b) => b.weekday === weekday(date)))
+      : days;
+  }
+  if (rule.byDay.length > 0) {
+    return rule.byDay.flatMap(({ nth, weekday: day }) => {
+      const matching = all.filter((date) => weekday(date) === day);
+      if (nth === null) return matching;
+      const pick = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+      return pick ? [pick] : [];
+    });
+  }
+  return startDay <= last ? [ymd(year, month, startDay)] : [];
+}
+
+/** First day of the `index`th period (day, week, month or year) of a rule. */
+function periodStart(rule: RecurrenceRule, start: string, index: number): string {
+  const [year, month] = start.split("-").map(Number);
+  const step = index * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return addDays(start, step);
+    case "WEEKLY":
+      // Weeks start on Monday
+      return addDays(start, -((weekday(start) + 6) % 7) + step * 7);
+    case "MONTHLY": {
+      const months = month - 1 + step;
+      return ymd(year + Math.floor(months / 12), (months % 12) + 1, 1);
+    }
+    case "YEARLY":
+      return ymd(year + step, 1, 1);
+  }
+}
+
+/** Candidate dates in the period starting at `period`. */
+function periodDates(rule: RecurrenceRule, start: string, period: string): string[] {
+  const [year, month] = period.split("-").map(Number);
+  const startDay = Number(start.slice(8, 10));
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [period];
+    case "WEEKLY": {
+      const week = Array.from({ length: 7 }, (_, i) => addDays(period, i));
+      return rule.byDay.length > 0
+        ? week.filter((date) => rule.byDay.some((b) => b.weekday === weekday(date)))
+        : week.filter((date) => weekday(date) === weekday(start));
+    }
+    case "MONTHLY":
+      return monthDates(rule, year, month, startDay);
+    case "YEARLY": {
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [Number(start.slice(5, 7))];
+      return months.flatMap((m) => monthDates(rule, year, m, startDay));
+    }
+  }
+}
+
+function matchesFilters(rule: RecurrenceRule, date: string): boolean {
+  const month = Number(date.slice(5, 7));
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return false;
+  if (rule.freq === "DAILY") {
+    if (rule.byDay.length > 0 && !rule.byDay.some((b) => b.weekday === weekday(date))) {
+      return false;
+    }
+    const day = Number(date.slice(8, 10));
+    const last = daysInMonth(Number(date.slice(0, 4)), month);
+    if (
+      rule.byMonthDay.length > 0 &&
+      !rule.byMonthDay.some((d) => (d < 0 ? last + d + 1 : d) === day)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Start dates of a repeating event up to `horizon` (YYYY-MM-DD), beginning
+ * with DTSTART itself. Covers the rules calendar apps write: FREQ, INTERVAL,
+ * COUNT, UNTIL, BYDAY (with ordinals such as 2TU or -1FR), BYMONTHDAY and
+ * BYMONTH.
+ */
+function expandRule(start: IcsDateTime, rule: RecurrenceRule, horizon: string): string[] {
+  const until = rule.until;
+  const pastUntil = (date: string) => {
+    if (!until) return false;
+    if (until.time === null || start.time === null) return date > until.date;
+    return instantOf({ ...start, date }) > instantOf(until);
+  };
+
+  const dates = [start.date];
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    const period = periodStart(rule, start.date, i);
+    if (period > horizon) break;
+    const candidates = periodDates(rule, start.date, period)
+      .filter((date) => date > start.date && matchesFilters(rule, date))
+      .sort();
+    for (const date of candidates) {
+      if (date > horizon || pastUntil(date)) return dates;
+      if (rule.count !== null && dates.length >= rule.count) return dates;
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+// Google's exports use the API's event id plus its domain as the UID
+function eventId(uid: string): string {
+  return uid.replace(/@google\.com$/, "");
+}
+
+// The suffix Google gives instances of a repeat: _20260714T013000Z or _20260714
+function instanceSuffix(value: IcsDateTime): string {
+  if (value.time === null) return value.date.replace(/-/g, "");
+  return new Date(instantOf(value))
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function statusOf(vevent: IcsComponent): CalendarEvent["status"] {
+  const status = text(vevent, "STATUS").toLowerCase();
+  return status === "tentative" || status === "cancelled" ? status : "confirmed";
+}
+
+/** How long an event lasts: days for all-day events, millis otherwise. */
+function lengthOf(vevent: IcsComponent, start: IcsDateTime, zone: string): number {
+  const end = dateTimeProperty(property(vevent, "DTEND"), zone);
+  const duration = property(vevent, "DURATION");
+  if (start.time === null) {
+    if (end) return Math.max(1, daysBetween(start.date, end.date));
+    const ms = duration ? parseDuration(duration.value) : null;
+    return ms ? Math.max(1, Math.round(ms / 86_400_000)) : 1;
+  }
+  if (end) return Math.max(0, instantOf(end) - instantOf(start));
+  return (duration ? parseDuration(duration.value) : null) ?? 0;
+}
+
+function toEvent(
+  vevent: IcsComponent,
+  start: IcsDateTime,
+  length: number,
+  zone: string,
+  ids: { id: string; recurringEventId?: string },
+): CalendarEvent {
+  const allDay = start.time === null;
+  const begins = instantOf(start);
+  const modified = dateTimeProperty(property(vevent, "LAST-MODIFIED"), "UTC");
+
+  return {
+    id: ids.id,
+    summary: text(vevent, "SUMMARY"),
+    description: text(vevent, "DESCRIPTION"),
+    location: text(vevent, "LOCATION"),
+    start: allDay ? start.date : formatInstant(begins, zone),
+    end: allDay ? addDays(start.date, length) : formatInstant(begins + length, zone),
+    allDay,
+    status: statusOf(vevent),
+    recurringEventId: ids.recurringEventId,
+    htmlLink: text(vevent, "URL") || undefined,
+    updated: modified ? new Date(instantOf(modified)).toISOString() : undefined,
+  };
+}
+
+/** Every occurrence of one event (a UID), with moved or cancelled instances applied. */
+function occurrences(
+  master: IcsComponent,
+  overrides: IcsComponent[],
+  zone: string,
+  horizon: string,
+): CalendarEvent[] {
+  const uid = eventId(text(master, "UID"));
+  const start = dateTimeProperty(property(master, "DTSTART"), zone);
+  if (!start) return [];
+  const length = lengthOf(master, start, zone);
+
+  const ruleProp = property(master, "RRULE");
+  const rule = ruleProp ? parseRule(ruleProp.value, zone) : null;
+  if (!rule && overrides.length === 0) {
+    return [toEvent(master, start, length, zone, { id: uid })];
+  }
+
+  const excluded = new Set(dateTimeList(master, "EXDATE", zone).map(instanceSuffix));
+  const dates = [
+    ...new Set([
+      ...(rule ? expandRule(start, rule, horizon) : [start.date]),
+      ...dateTimeList(master, "RDATE", zone).map((d) => d.date),
+    ]),
+  ].sort();
+
+  const moved = new Map<string, IcsComponent>();
+  for (const override of overrides) {
+    const recurrenceId = dateTimeProperty(property(override, "RECURRENCE-ID"), zone);
+    if (recurrenceId) moved.set(instanceSuffix(recurrenceId), override);
+  }
+
+  const events: CalendarEvent[] = [];
+  for (const date of dates) {
+    const instance = { ...start, date };
+    const suffix = instanceSuffix(instance);
+    if (excluded.has(suffix) && !moved.has(suffix)) continue;
+    const ids = { id: `${uid}_${suffix}`, recurringEventId: uid };
+
+    const override = moved.get(suffix);
+    moved.delete(suffix);
+    const overrideStart = override && dateTimeProperty(property(override, "DTSTART"), zone);
+    events.push(
+      override && overrideStart
+        ? toEvent(override, overrideStart, lengthOf(override, overrideStart, zone), zone, ids)
+        : toEvent(master, instance, length, zone, ids),
+    );
+  }
+
+  // Instances moved in from past the horizon
+  for (const [suffix, override] of moved) {
+    const overrideStart = dateTimeProperty(property(override, "DTSTART"), zone);
+    if (!overrideStart) continue;
+    events.push(
+      toEvent(override, overrideStart, lengthOf(override, overrideStart, zone), zone, {
+        id: `${uid}_${suffix}`,
+        recurringEventId: uid,
+      }),
+    );
+  }
+  return events;
+}
+
+/**
+ * Turn an iCalendar file into CalendarEvents the way the Google API returns
+ * them with singleEvents: each occurrence of a repeat is its own event, ids
+ * and times look like Google's, and cancelled instances are kept. Open-ended
+ * repeats stop a year from `now`. Null if the text isn't iCalendar at all.
+ */
+export function icsToEvents(source: string, options: IcsParseOptions): CalendarEvent[] | null {
+  const calendar = parseIcs(source);
+  if (!calendar) return null;
+
+  const declared = property(calendar, "X-WR-TIMEZONE")?.value.trim();
+  const zone = declared && isKnownZone(declared) ? declared : TIMEZONE;
+
+  const timeMax = options.window?.timeMax ? Date.parse(options.window.timeMax) : null;
+  const timeMin = options.window?.timeMin ? Date.parse(options.window.timeMin) : null;
+  const horizon = wallClock(timeMax ?? options.now + HORIZON_DAYS * 86_400_000, zone).date;
+
+  const byUid = new Map<string, { master?: IcsComponent; overrides: IcsComponent[] }>();
+  for (const vevent of calendar.components.filter((c) => c.name === "VEVENT")) {
+    const uid = text(vevent, "UID");
+    if (!uid) continue;
+    const entry = byUid.get(uid) ?? { overrides: [] };
+    if (property(vevent, "RECURRENCE-ID")) entry.overrides.push(vevent);
+    else entry.master = vevent;
+    byUid.set(uid, entry);
+  }
+
+  const events = [...byUid.values()].flatMap(({ master, overrides }) => {
+    // A lone override keeps its own times
+    const base = master ?? overrides.shift();
+    return base ? occurrences(base, master ? overrides : [], zone, horizon) : [];
+  });
+
+  return events.filter((event) => {
+    const start = event.allDay ? toInstant(event.start, "00:00:00", zone) : Date.parse(event.start);
+    return (timeMin === null || start >= timeMin) && (timeMax === null || start < timeMax);
+  });
+}
+
+// ============================================================================
+// Live Implementation
+// ============================================================================
+
+const isUrl = (location: string) => /^(https?|webcal):\/\//i.test(location);
+
+/**
+ * CalendarService over any iCalendar feed: a public .ics URL (webcal:// is
+ * fetched over https) or a file path. Feeds can't say what changed, so every
+ * sync is a full one.
+ */
+export const icsCalendarLayer = (location: string) =>
+  Layer.effect(
+    CalendarService,
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const fs = yield* FileSystem.FileSystem;
+
+      const read = isUrl(location)
+        ? getText(client, location.replace(/^webcal:/i, "https:"))
+        : fs
+            .readFileString(location)
+            .pipe(
+              Effect.mapError(
+                (error) => new HttpError({ url: location, status: null, reason: error.message }),
+              ),
+            );
+
+      const fetchEvents = (window: TimeWindow = {}) =>
+        Effect.gen(function* () {
+          const body = yield* read;
+          const now = yield* Clock.currentTimeMillis;
+          const events = icsToEvents(body, { window, now });
+          if (!events) {
+            return yield* new UnexpectedResponseError({
+              url: location,
+              expected: "an iCalendar file",
+              snippet: snippet(body),
+            });
+          }
+          return applyCalendarSync([], { full: true, events, deleted: [], nextSyncToken: null });
+        });
+
+      return {
+        fetchEvents,
+        syncEvents: () =>
+          Effect.map(
+            fetchEvents(),
+            (events): CalendarSync => ({ full: true, events, deleted: [], nextSyncToken: null }),
+          ),
+      };
+    }),
+  );
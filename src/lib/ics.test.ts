@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import type { CalendarEvent } from "./calendar";
+import {
+  buildCalendar,
+  calendarEventToIcsEvent,
+  gameToIcsEvent,
+  nonLeagueGameToIcsEvent,
+} from "./ics";
+import type { UlaxGame } from "./ulax";
+
+const game: UlaxGame = {
+  id: 146,
+  date: "2026-02-22",
+  time: "7:00 pm",
+  field: "Beach Chalet - Pitch #4",
+  awayTeam: "Palo Alto Ducks",
+  awayScore: 3,
+  homeTeam: '<i class="fas fa-trophy"></i> Barbary Coast',
+  homeScore: 7,
+  gameType: "championship",
+  typeName: "Championship",
+  isBarbaryCoast: true,
+  barbaryCoastIsHome: true,
+};
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+describe("gameToIcsEvent", () => {
+  test("uses a stable UID and Pacific wall-clock times", () => {
+    const event = gameToIcsEvent("winter-2026", game);
+
+    expect(event.uid).toBe("ulax-game-winter-2026-146@barbarycoastlacrosse.com");
+    // Rescheduling doesn't change it
+    expect(gameToIcsEvent("winter-2026", { ...game, date: "2026-03-01" }).uid).toBe(event.uid);
+    expect(event.start).toEqual({ kind: "local", date: "2026-02-22", time: "19:00" });
+    expect(event.end).toEqual({ kind: "local", date: "2026-02-22", time: "20:30" });
+  });
+
+  test("includes the final score once played", () => {
+    expect(gameToIcsEvent("winter-2026", game).summary).toBe(
+      "Championship: Barbary Coast vs Palo Alto Ducks (W 7-3)",
+    );
+    expect(
+      gameToIcsEvent("winter-2026", {
+        ...game,
+        homeScore: null,
+        awayScore: null,
+        gameType: "regular",
+      }).summary,
+    ).toBe("Barbary Coast vs Palo Alto Ducks");
+  });
+
+  test("falls back to an all-day event when the time is unknown", () => {
+    const event = gameToIcsEvent("winter-2026", {
+      ...game,
+      time: "TBD",
+    });
+
+    expect(event.start).toEqual({ kind: "date", date: "2026-02-22" });
+    expect(event.end).toEqual({ kind: "date", date: "2026-02-23" });
+  });
+});
+
+describe("nonLeagueGameToIcsEvent", () => {
+  test("names the tournament and the result", () => {
+    const event = nonLeagueGameToIcsEvent({
+      id: "vegas-shootout-2026",
+      date: "2026-06-15",
+      time: "9:00 am",
+      competition: "tournament",
+      event: "Vegas Shootout",
+      opponent: "Vegas Lax",
+      location: "Las Vegas",
+      goalsFor: 6,
+      goalsAgainst: 6,
+    });
+
+    expect(event).toMatchObject({
+      uid: "game-vegas-shootout-2026@barbarycoastlacrosse.com",
+      summary: "Vegas Shootout: Barbary Coast vs Vegas Lax (T 6-6)",
+      description: "Tournament, Vegas Shootout",
+      start: { kind: "local", date: "2026-06-15", time: "09:00" },
+    });
+  });
+});
+
+describe("buildCalendar", () => {
+  const practice: CalendarEvent = {
+    id: "abc123",
+    summary: "BC Practice",
+    description: "Bring pinnies; both colors",
+    location: "Kezar Stadium, 670 Kezar Dr, San Francisco, CA 94118, USA",
+    start: "2026-03-10T18:30:00-07:00",
+    end: "2026-03-10T20:00:00-07:00",
+    allDay: false,
+  };
+
+  const ics = buildCalendar({
+    name: "Barbary Coast Lacrosse",
+    dtstamp: new Date("2026-03-01T06:00:00Z"),
+    events: [gameToIcsEvent("winter-2026", game), calendarEventToIcsEvent(practice)],
+  });
+
+  test("emits CRLF lines folded to 75 octets", () => {
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines.at(-2)).toBe("END:VCALENDAR");
+    expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(true);
+  });
+
+  test("writes timezone-aware and UTC times", () => {
+    const text = unfold(ics);
+
+    expect(text).toContain("BEGIN:VTIMEZONE");
+    expect(text).toContain("DTSTART;TZID=America/Los_Angeles:20260222T190000");
+    expect(text).toContain("DTSTART:20260311T013000Z");
+    expect(text).toContain("DTSTAMP:20260301T060000Z");
+  });
+
+  test("escapes text values", () => {
+    const text = unfold(ics);
+
+    expect(text).toContain("DESCRIPTION:Bring pinnies\\; both colors");
+    expect(text).toContain(
+      "LOCATION:Kezar Stadium\\, 670 Kezar Dr\\, San Francisco\\, CA 94118\\, USA",
+    );
+  });
+});
@@ -0,0 +1,334 @@
+import { type CalendarData, type CalendarEvent, isCancelled } from "./calendar";
+import { addDays, parseGameTime } from "./date";
+import { buildTimeline, isTbd, type TeamEvent, type TeamEventKind } from "./events";
+import { type NonLeagueGame, resultOf } from "./games";
+import { cleanTeamName, isOurTeam, TEAM } from "./team";
+import type { UlaxAllDataSerialized, UlaxGame } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: IcsTime;
+  end: IcsTime;
+  url?: string;
+  cancelled?: boolean;
+}
+
+/** All-day date, Pacific wall-clock time, or an absolute UTC instant */
+export type IcsTime =
+  | { kind: "date"; date: string } // YYYY-MM-DD
+  | { kind: "local"; date: string; time: string } // YYYY-MM-DD, HH:MM in TZID
+  | { kind: "utc"; instant: Date };
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  dtstamp: Date;
+  events: IcsEvent[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PRODID = `-//${TEAM.fullName}//Schedule//EN`;
+const UID_DOMAIN = "barbarycoastlacrosse.com";
+const TZID = "America/Los_Angeles";
+const GAME_DURATION_MINUTES = 90;
+
+// US Pacific rules since 2007; enough for clients that don't know the TZID
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TZID}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0800",
+  "TZOFFSETTO:-0700",
+  "TZNAME:PDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0800",
+  "TZNAME:PST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function formatTime(name: "DTSTART" | "DTEND", time: IcsTime): string {
+  switch (time.kind) {
+    case "date":
+      return `${name};VALUE=DATE:${time.date.replace(/-/g, "")}`;
+    case "local":
+      return `${name};TZID=${TZID}:${time.date.replace(/-/g, "")}T${time.time.replace(":", "")}00`;
+    case "utc":
+      return `${name}:${formatUtc(time.instant)}`;
+  }
+}
+
+export function buildCalendar(calendar: IcsCalendar): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${TZID}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT12H",
+    "X-PUBLISHED-TTL:PT12H",
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  if (calendar.events.some((e) => e.start.kind === "local")) lines.push(...VTIMEZONE);
+
+  const dtstamp = formatUtc(calendar.dtstamp);
+  for (const event of calendar.events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${dtstamp}`,
+      formatTime("DTSTART", event.start),
+      formatTime("DTEND", event.end),
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.cancelled) lines.push("STATUS:CANCELLED");
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+// ============================================================================
+// Conversions
+// ============================================================================
+
+function addMinutes(date: string, time: string, minutes: number): { date: string; time: string } {
+  // Wall-clock arithmetic; UTC here is just a calendar without DST gaps
+  const d = new Date(`${date}T${time}:00Z`);
+  d.setUTCMinutes(d.getUTCMinutes() + minutes);
+  const iso = d.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * ULAX reuses game ids from season to season, so the season keeps UIDs unique.
+ * Nothing about the game's time goes in, so a rescheduled game updates in
+ * subscribers' calendars instead of showing up as a new event.
+ */
+export function gameUid(season: string, game: UlaxGame): string {
+  return `ulax-game-${season}-${game.id}@${UID_DOMAIN}`;
+}
+
+export function gameToIcsEvent(season: string, game: UlaxGame): IcsEvent {
+  const home = cleanTeamName(game.homeTeam);
+  const away = cleanTeamName(game.awayTeam);
+  const bcIsHome = game.barbaryCoastIsHome ?? isOurTeam(home);
+  const opponent = bcIsHome ? away : home;
+  const hasScore = game.homeScore !== null && game.awayScore !== null;
+
+  let summary = bcIsHome ? `${TEAM.name} vs ${opponent}` : `${TEAM.name} @ ${opponent}`;
+  if (hasScore) {
+    const bcScore = bcIsHome ? game.homeScore : game.awayScore;
+    const oppScore = bcIsHome ? game.awayScore : game.homeScore;
+    const result = bcScore === oppScore ? "T" : (bcScore ?? 0) > (oppScore ?? 0) ? "W" : "L";
+    summary += ` (${result} ${bcScore}-${oppScore})`;
+  }
+  if (game.gameType !== "regular") summary = `${game.typeName}: ${summary}`;
+
+  const description = [`ULAX ${game.typeName}`, `${away} at ${home}`];
+  if (hasScore) description.push(`Final: ${away} ${game.awayScore}, ${home} ${game.homeScore}`);
+
+  const time = parseGameTime(game.time);
+  const [start, end]: [IcsTime, IcsTime] = time
+    ? [
+        { kind: "local", date: game.date, time },
+        { kind: "local", ...addMinutes(game.date, time, GAME_DURATION_MINUTES) },
+      ]
+    : [
+        { kind: "date", date: game.date },
+        { kind: "date", date: addDays(game.date, 1) },
+      ];
+
+  return {
+    uid: gameUid(season, game),
+    summary,
+    description: description.join("\n"),
+    location: game.field,
+    start,
+    end,
+  };
+}
+
+/** From the game's id in games.json, which stays put when the game moves */
+export function nonLeagueGameUid(game: NonLeagueGame): string {
+  return `game-${game.id}@${UID_DOMAIN}`;
+}
+
+export function nonLeagueGameToIcsEvent(game: NonLeagueGame, url?: string): IcsEvent {
+  const result = resultOf(game);
+  let summary = `${TEAM.name} vs ${game.opponent}`;
+  if (result) summary += ` (${result} ${game.goalsFor}-${game.goalsAgainst})`;
+  if (game.event) summary = `${game.event}: ${summary}`;
+
+  const competition = game.competition.charAt(0).toUpperCase() + game.competition.slice(1);
+  const time = game.time ? parseGameTime(game.time) : null;
+  const [start, end]: [IcsTime, IcsTime] = time
+    ? [
+        { kind: "local", date: game.date, time },
+        { kind: "local", ...addMinutes(game.date, time, GAME_DURATION_MINUTES) },
+      ]
+    : [
+        { kind: "date", date: game.date },
+        { kind: "date", date: addDays(game.date, 1) },
+      ];
+
+  return {
+    uid: nonLeagueGameUid(game),
+    summary,
+    description: game.event ? `${competition}, ${game.event}` : competition,
+    location: game.location,
+    start,
+    end,
+    url,
+  };
+}
+
+export function calendarEventUid(event: CalendarEvent): string {
+  return `gcal-${event.id}@${UID_DOMAIN}`;
+}
+
+export function calendarEventToIcsEvent(event: CalendarEvent): IcsEvent {
+  const [start, end]: [IcsTime, IcsTime] = event.allDay
+    ? [
+        { kind: "date", date: event.start.slice(0, 10) },
+        // Google's all-day end date is already exclusive
+        {
+          kind: "date",
+          date:
+            event.end.slice(0, 10) > event.start.slice(0, 10)
+              ? event.end.slice(0, 10)
+              : addDays(event.start.slice(0, 10), 1),
+        },
+      ]
+    : [
+        { kind: "utc", instant: new Date(event.start) },
+        { kind: "utc", instant: new Date(event.end) },
+      ];
+
+  return {
+    uid: calendarEventUid(event),
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    start,
+    end,
+    url: event.htmlLink,
+    cancelled: isCancelled(event),
+  };
+}
+
+// ============================================================================
+// Feeds
+// ============================================================================
+
+export type FeedKind = "all" | "games" | "team";
+
+const FEEDS: Record<FeedKind, { name: string; description: string; kinds: TeamEventKind[] }> = {
+  all: {
+    name: TEAM.fullName,
+    description: "Games, practices and team events",
+    kinds: ["game", "scrimmage", "tournament", "exhibition", "practice", "social", "event"],
+  },
+  games: {
+    name: `${TEAM.fullName}: Games`,
+    description: "League games and scrimmages",
+    kinds: ["game", "scrimmage", "tournament", "exhibition"],
+  },
+  team: {
+    name: `${TEAM.fullName}: Team`,
+    description: "Practices and socials",
+    kinds: ["practice", "social", "event"],
+  },
+};
+
+export function teamEventToIcsEvent(event: TeamEvent): IcsEvent {
+  if (event.game) return gameToIcsEvent(event.season, event.game);
+  if (event.nonLeague)
+    return nonLeagueGameToIcsEvent(event.nonLeague, event.calendarEvent?.htmlLink);
+  return calendarEventToIcsEvent(event.calendarEvent);
+}
+
+/**
+ * Build one of the published feeds from the team timeline across every ULAX
+ * season and the non-league games. Playoff slots without both teams are left
+ * out until they're set.
+ */
+export function buildFeed(
+  kind: FeedKind,
+  ulax: UlaxAllDataSerialized,
+  calendar: CalendarData,
+  nonLeague: readonly NonLeagueGame[],
+): string {
+  const { name, description, kinds } = FEEDS[kind];
+  const events = buildTimeline(ulax.seasons, calendar.events, nonLeague)
+    .filter((e) => kinds.includes(e.kind) && !(e.game && isTbd(e.game)))
+    .map(teamEventToIcsEvent);
+
+  const fetchedAt = [ulax.fetchedAt, calendar.fetchedAt].sort().at(-1) ?? ulax.fetchedAt;
+  return buildCalendar({ name, description, dtstamp: new Date(fetchedAt), events });
+}
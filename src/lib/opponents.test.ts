@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { buildHeadToHead, opponentKey, opponentSlug } from "./opponents";
+import type { UlaxGame, UlaxSeasonData } from "./ulax";
+
+let nextId = 1;
+const game = (
+  date: string,
+  opponent: string,
+  bcScore: number | null,
+  oppScore: number | null,
+  bcIsHome = true,
+): UlaxGame => ({
+  id: nextId++,
+  date,
+  time: "5:00 pm",
+  field: "Beach Chalet",
+  awayTeam: bcIsHome ? opponent : "Barbary Coast",
+  awayScore: bcIsHome ? oppScore : bcScore,
+  homeTeam: bcIsHome ? "Barbary Coast" : opponent,
+  homeScore: bcIsHome ? bcScore : oppScore,
+  gameType: "regular",
+  typeName: "Regular Season",
+  isBarbaryCoast: true,
+  barbaryCoastIsHome: bcIsHome,
+});
+
+const season = (schedule: UlaxGame[]): UlaxSeasonData => ({
+  schedule,
+  standings: [],
+  playerStats: [],
+  goalieStats: [],
+  roster: [],
+});
+
+describe("opponentKey", () => {
+  test("groups spellings of the same club", () => {
+    expect(opponentKey("Marin LC")).toBe(opponentKey("Marin"));
+    expect(opponentKey("Golden State Stars Lacrosse Club")).toBe(opponentKey("Golden State Stars"));
+    expect(opponentKey("SFLC")).toBe(opponentKey("San Francisco Lacrosse Club"));
+    expect(opponentKey("PA Ducks")).toBe(opponentKey("Palo Alto Ducks"));
+    expect(opponentSlug('<i class="fas fa-trophy"></i> Olympic Club')).toBe("olympic-club");
+  });
+});
+
+describe("buildHeadToHead", () => {
+  const seasons = {
+    "summer-2024": season([
+      game("2024-06-01", "Olympic Club", 3, 5),
+      game("2024-06-08", "Marin", 10, 2),
+    ]),
+    "spring-2025": season([
+      game("2025-03-01", "Olympic Club", 6, 4, false),
+      game("2025-03-08", "Olympic Club", 7, 7),
+      game("2025-03-15", "Olympic Club", 8, 2),
+      game("2025-03-22", "Olympic Club", 9, 1),
+      game("2025-03-29", "Olympic Club", null, null),
+      game("2025-03-30", "TBD", null, null),
+    ]),
+  };
+
+  test("totals record and goals against each opponent", () => {
+    const [olympic, marin] = buildHeadToHead(seasons);
+
+    expect(olympic).toMatchObject({
+      slug: "olympic-club",
+      wins: 3,
+      losses: 1,
+      ties: 1,
+      goalsFor: 33,
+      goalsAgainst: 19,
+    });
+    expect(olympic.games).toHaveLength(6);
+    expect(olympic.lastMeeting?.game.date).toBe("2025-03-22");
+    expect(olympic.nextMeeting?.game.date).toBe("2025-03-29");
+    expect(marin).toMatchObject({ slug: "marin", wins: 1, losses: 0, ties: 0 });
+  });
+
+  test("reads scores from Barbary Coast's side of the game", () => {
+    const [olympic] = buildHeadToHead(seasons);
+    const away = olympic.games.find((g) => g.game.date === "2025-03-01");
+
+    expect(away).toMatchObject({ isHome: false, goalsFor: 6, goalsAgainst: 4, result: "W" });
+  });
+
+  test("tracks the longest and current streaks", () => {
+    const [olympic] = buildHeadToHead(seasons);
+
+    expect(olympic.longestStreak).toMatchObject({ result: "W", length: 2, from: "2025-03-15" });
+    expect(olympic.currentStreak).toMatchObject({ result: "W", length: 2, to: "2025-03-22" });
+  });
+});
@@ -0,0 +1,174 @@
+import { seasonSortKey } from "./history";
+import { cleanTeamName, isOurTeam } from "./team";
+import type { UlaxGame, UlaxSeasonData } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GameResult = "W" | "L" | "T";
+
+export interface HeadToHeadGame {
+  season: string; // e.g. "spring-2025"
+  game: UlaxGame;
+  opponent: string; // cleaned name as listed for this game
+  isHome: boolean;
+  goalsFor: number | null;
+  goalsAgainst: number | null;
+  result: GameResult | null; // null until the game has been scored
+}
+
+export interface Streak {
+  result: GameResult;
+  length: number;
+  from: string; // YYYY-MM-DD
+  to: string;
+}
+
+export interface OpponentRecord {
+  slug: string;
+  name: string;
+  aliases: string[];
+  wins: number;
+  losses: number;
+  ties: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  games: HeadToHeadGame[]; // oldest first, including unplayed games
+  lastMeeting: HeadToHeadGame | null;
+  nextMeeting: HeadToHeadGame | null;
+  longestStreak: Streak | null;
+  currentStreak: Streak | null;
+}
+
+// ============================================================================
+// Opponent identity
+// ============================================================================
+
+// Abbreviations ULAX has used for the same club in different seasons
+const OPPONENT_ALIASES: Record<string, string> = {
+  sflc: "san francisco",
+  "pa ducks": "palo alto ducks",
+};
+
+/**
+ * Key that groups spellings of the same club: "Marin LC" and "Marin", or
+ * "Golden State Stars Lacrosse Club" and "Golden State Stars".
+ */
+export function opponentKey(name: string): string {
+  const key = cleanTeamName(name)
+    .toLowerCase()
+    .replace(/\s+(lacrosse club|lacrosse|lc)$/, "")
+    .trim();
+  return OPPONENT_ALIASES[key] ?? key;
+}
+
+export function opponentSlug(name: string): string {
+  return opponentKey(name)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+// ============================================================================
+// Head-to-head
+// ============================================================================
+
+function isTBD(game: UlaxGame): boolean {
+  return game.homeTeam === "TBD" || game.awayTeam === "TBD";
+}
+
+/** One of our games from our side of it: opponent, goals for and against. */
+export function toHeadToHeadGame(season: string, game: UlaxGame): HeadToHeadGame {
+  const home = cleanTeamName(game.homeTeam);
+  const away = cleanTeamName(game.awayTeam);
+  const isHome = game.barbaryCoastIsHome ?? isOurTeam(home);
+  const goalsFor = isHome ? game.homeScore : game.awayScore;
+  const goalsAgainst = isHome ? game.awayScore : game.homeScore;
+
+  let result: GameResult | null = null;
+  if (goalsFor !== null && goalsAgainst !== null) {
+    result = goalsFor > goalsAgainst ? "W" : goalsFor < goalsAgainst ? "L" : "T";
+  }
+
+  return { season, game, opponent: isHome ? away : home, isHome, goalsFor, goalsAgainst, result };
+}
+
+function streaks(games: HeadToHeadGame[]): Streak[] {
+  const runs: Streak[] = [];
+  for (const { game, result } of games) {
+    if (!result) continue;
+    const last = runs.at(-1);
+    if (last?.result === result) {
+      last.length++;
+      last.to = game.date;
+    } else {
+      runs.push({ result, length: 1, from: game.date, to: game.date });
+    }
+  }
+  return runs;
+}
+
+function compareGames(a: HeadToHeadGame, b: HeadToHeadGame): number {
+  return (
+    a.game.date.localeCompare(b.game.date) ||
+    seasonSortKey(a.season) - seasonSortKey(b.season) ||
+    a.game.id - b.game.id
+  );
+}
+
+/**
+ * Barbary Coast's record against every opponent across all seasons. Opponents
+ * are sorted by meetings played, most first. The display name is whatever the
+ * club was most recently listed as.
+ */
+export function buildHeadToHead(seasons: Record<string, UlaxSeasonData>): OpponentRecord[] {
+  const byOpponent = new Map<string, HeadToHeadGame[]>();
+  for (const [season, data] of Object.entries(seasons)) {
+    for (const game of data.schedule) {
+      if (!game.isBarbaryCoast || isTBD(game)) continue;
+      const h2h = toHeadToHeadGame(season, game);
+      const slug = opponentSlug(h2h.opponent);
+      if (!slug) continue;
+      byOpponent.set(slug, [...(byOpponent.get(slug) ?? []), h2h]);
+    }
+  }
+
+  const records: OpponentRecord[] = [];
+  for (const [slug, unsorted] of byOpponent) {
+    const games = unsorted.sort(compareGames);
+    const played = games.filter((g) => g.result !== null);
+    const runs = streaks(games);
+    const name = games.at(-1)?.opponent ?? slug;
+
+    records.push({
+      slug,
+      name,
+      aliases: [...new Set(games.map((g) => g.opponent))].filter((n) => n !== name).sort(),
+      wins: played.filter((g) => g.result === "W").length,
+      losses: played.filter((g) => g.result === "L").length,
+      ties: played.filter((g) => g.result === "T").length,
+      goalsFor: played.reduce((sum, g) => sum + (g.goalsFor ?? 0), 0),
+      goalsAgainst: played.reduce((sum, g) => sum + (g.goalsAgainst ?? 0), 0),
+      games,
+      lastMeeting: played.at(-1) ?? null,
+      nextMeeting: games.find((g) => g.result === null) ?? null,
+      // Ties on length go to the more recent run
+      longestStreak: runs.reduce<Streak | null>(
+        (best, run) => (!best || run.length >= best.length ? run : best),
+        null,
+      ),
+      currentStreak: runs.at(-1) ?? null,
+    });
+  }
+
+  return records.sort(
+    (a, b) =>
+      b.wins + b.losses + b.ties - (a.wins + a.losses + a.ties) ||
+      b.games.length - a.games.length ||
+      a.name.localeCompare(b.name),
+  );
+}
+
+export function formatStreak(streak: Streak | null): string {
+  return streak ? `${streak.result}${streak.length}` : "—";
+}
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildPlayerProfiles,
+  displayPlayerName,
+  findPlayerStats,
+  isSamePlayerName,
+  normalizePlayerName,
+  playerSlug,
+  teamRoster,
+} from "./players";
+import type { UlaxPlayerStats, UlaxRosterPlayer, UlaxSeasonData } from "./ulax";
+
+const stat = (name: string, number: string, points = 0): UlaxPlayerStats => ({
+  name,
+  number,
+  team: "Barbary Coast",
+  gp: 1,
+  goals: points,
+  assists: 0,
+  points,
+});
+
+describe("player names", () => {
+  test("normalizes last-first and first-last forms to the same key", () => {
+    expect(normalizePlayerName("Herron, Liam")).toBe("liam herron");
+    expect(normalizePlayerName("  Liam  Herron ")).toBe("liam herron");
+    expect(normalizePlayerName("Núñez, José")).toBe("jose nunez");
+  });
+
+  test("builds slugs and display names", () => {
+    expect(playerSlug("Held, J Michael")).toBe("j-michael-held");
+    expect(displayPlayerName("Held, J Michael")).toBe("J Michael Held");
+    expect(displayPlayerName("Cher")).toBe("Cher");
+  });
+});
+
+describe("findPlayerStats", () => {
+  test("matches on name and number", () => {
+    const stats = [stat("Smith, John", "4", 1), stat("Smith, John", "22", 9)];
+
+    expect(findPlayerStats({ name: "Smith, John", number: "22" }, stats)?.points).toBe(9);
+  });
+
+  test("treats a blank number on either side as a wildcard", () => {
+    const stats = [stat("Herron, Liam", "", 13)];
+
+    expect(findPlayerStats({ name: "Herron, Liam", number: "12" }, stats)?.points).toBe(13);
+  });
+
+  test("won't pair players whose numbers conflict", () => {
+    expect(findPlayerStats({ name: "Smith, John", number: "7" }, [stat("Smith, John", "4")])).toBe(
+      undefined,
+    );
+  });
+
+  test("returns undefined when no name matches", () => {
+    expect(findPlayerStats({ name: "Doe, Jane", number: "1" }, [stat("Smith, John", "1")])).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("teamRoster", () => {
+  const rosterPlayer = (name: string, team: string): UlaxRosterPlayer => ({
+    name,
+    number: "",
+    position: "Attack",
+    height: "",
+    weight: "",
+    age: "",
+    homeTown: "",
+    team,
+    isCaptain: false,
+    isAssistantCaptain: false,
+  });
+
+  test("keeps our players when rows name their team", () => {
+    const roster = [
+      rosterPlayer("Herron, Liam", "Barbary Coast"),
+      rosterPlayer("Nguyen, Chris", "Palo Alto Ducks"),
+    ];
+
+    expect(teamRoster(roster)).toEqual({ players: [roster[0]], hasTeams: true });
+  });
+
+  test("keeps no one when no row names a team", () => {
+    const roster = [rosterPlayer("Held, J Michael", ""), rosterPlayer("Baum, Gideon", "")];
+
+    expect(teamRoster(roster)).toEqual({ players: [], hasTeams: false });
+  });
+});
+
+describe("isSamePlayerName", () => {
+  test("accepts short forms, typos and case differences", () => {
+    expect(isSamePlayerName("Dickson, Zachary", "Dickson, Zach")).toBe(true);
+    expect(isSamePlayerName("Donoso-Reddick, Nathan", "Donoso-Reddick, Nate")).toBe(true);
+    expect(isSamePlayerName("BAHARY, DEVON", "Bahary, Devon")).toBe(true);
+    expect(isSamePlayerName("Welch, William “Wild Bill”", "Welch, William")).toBe(true);
+    expect(isSamePlayerName("Gonzales, Alex", "Gonzalez, Alex")).toBe(true);
+  });
+
+  test("keeps different people apart", () => {
+    expect(isSamePlayerName("Black, Chris", "Black, Charlie")).toBe(false);
+    expect(isSamePlayerName("Reid, Joe", "Reid, Finn")).toBe(false);
+    expect(isSamePlayerName("Ward, Matt", "Ward, Stone")).toBe(false);
+  });
+});
+
+describe("buildPlayerProfiles", () => {
+  const season = (overrides: Partial<UlaxSeasonData>): UlaxSeasonData => ({
+    schedule: [],
+    standings: [],
+    playerStats: [],
+    goalieStats: [],
+    roster: [],
+    ...overrides,
+  });
+
+  test("merges a player across seasons despite number and spelling changes", () => {
+    const profiles = buildPlayerProfiles(
+      {
+        "winter-2025": season({ playerStats: [stat("Dickson, Zach", "4", 5)] }),
+        "winter-2026": season({ playerStats: [stat("Dickson, Zachary", "11", 7)] }),
+      },
+      [{ year: 2026, season: "winter", division: "Men's Field", champion: "Barbary Coast" }],
+    );
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].slug).toBe("zachary-dickson");
+    expect(profiles[0].aliases).toEqual(["Dickson, Zach"]);
+    expect(profiles[0].numbers).toEqual(["11", "4"]);
+    expect(profiles[0].totals.points).toBe(12);
+    expect(profiles[0].seasons.map((s) => s.season)).toEqual(["winter-2026", "winter-2025"]);
+    expect(profiles[0].championships).toHaveLength(1);
+  });
+
+  test("only credits a title won by the player's own team", () => {
+    const profiles = buildPlayerProfiles(
+      { "winter-2026": season({ playerStats: [stat("Dickson, Zach", "4", 5)] }) },
+      [{ year: 2026, season: "winter", division: "Men's Field", champion: "Barbary Coast B" }],
+    );
+
+    expect(profiles[0].teams).toEqual(["Barbary Coast"]);
+    expect(profiles[0].championships).toEqual([]);
+  });
+
+  test("splits same-name players wearing different numbers in one season", () => {
+    const profiles = buildPlayerProfiles(
+      {
+        "spring-2026": season({
+          playerStats: [stat("Smith, Jonathan", "4"), stat("Smith, Jon", "22")],
+        }),
+      },
+      [],
+    );
+
+    expect(profiles.map((p) => p.slug)).toEqual(["jon-smith", "jonathan-smith"]);
+  });
+});
@@ -0,0 +1,310 @@
+import { seasonSortKey } from "./history";
+import { cleanTeamName, isOurTeam } from "./team";
+import type {
+  UlaxChampionship,
+  UlaxGoalieStats,
+  UlaxPlayerStats,
+  UlaxRosterPlayer,
+  UlaxSeasonData,
+} from "./ulax";
+
+// ============================================================================
+// Name helpers
+// ============================================================================
+
+/**
+ * Normalize a ULAX player name for comparison.
+ * "Herron, Liam" and "liam herron" both become "liam herron".
+ */
+export function normalizePlayerName(name: string): string {
+  const cleaned = name.replace(/["“”‘’(].*?["“”‘’)]/g, "");
+  const [last, first] = cleaned.includes(",") ? cleaned.split(",", 2) : ["", cleaned];
+  return `${first} ${last}`
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** URL-safe slug for a player name: "Herron, Liam" -> "liam-herron" */
+export function playerSlug(name: string): string {
+  return normalizePlayerName(name).replace(/\s/g, "-");
+}
+
+/** Display form of a "Last, First" name: "Herron, Liam" -> "Liam Herron" */
+export function displayPlayerName(name: string): string {
+  if (!name.includes(",")) return name.trim();
+  const [last, first] = name.split(",", 2);
+  return `${first.trim()} ${last.trim()}`;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Find a roster player's stat line. Names must match; numbers must match
+ * when both sides have one (ULAX often leaves the stats number blank).
+ */
+export function findPlayerStats(
+  player: Pick<UlaxRosterPlayer, "name" | "number">,
+  stats: readonly UlaxPlayerStats[],
+): UlaxPlayerStats | undefined {
+  const name = normalizePlayerName(player.name);
+  const candidates = stats.filter((s) => normalizePlayerName(s.name) === name);
+  return candidates.find((s) => !player.number || !s.number || s.number === player.number);
+}
+
+/**
+ * Our players from a season's roster. ULAX's rosters page lists every team;
+ * when its rows don't say which team they're on (`team` is blank) ours can't
+ * be picked out, so no one comes back and `hasTeams` is false for the page
+ * to say why.
+ */
+export function teamRoster(roster: readonly UlaxRosterPlayer[]): {
+  players: UlaxRosterPlayer[];
+  hasTeams: boolean;
+} {
+  return {
+    players: roster.filter((p) => isOurTeam(p.team)),
+    hasTeams: roster.some((p) => p.team !== ""),
+  };
+}
+
+// ============================================================================
+// Career profiles
+// ============================================================================
+
+export interface PlayerSeason {
+  season: string;
+  team: string;
+  number: string;
+  position: string;
+  stats: UlaxPlayerStats | null;
+  goalie: UlaxGoalieStats | null;
+}
+
+export interface PlayerCareerTotals {
+  seasons: number;
+  gp: number;
+  goals: number;
+  assists: number;
+  points: number;
+  saves: number;
+  goalsAgainst: number;
+}
+
+export interface PlayerProfile {
+  slug: string;
+  name: string;
+  aliases: string[];
+  seasons: PlayerSeason[];
+  teams: string[];
+  numbers: string[];
+  totals: PlayerCareerTotals;
+  championships: UlaxChampionship[];
+}
+
+interface PlayerRecord {
+  season: string;
+  name: string;
+  number: string;
+  team: string;
+  position?: string;
+  stats?: UlaxPlayerStats;
+  goalie?: UlaxGoalieStats;
+}
+
+function splitName(name: string): { first: string; last: string } {
+  const normalized = normalizePlayerName(name);
+  const i = normalized.lastIndexOf(" ");
+  return i === -1
+    ? { first: "", last: normalized }
+    : { first: normalized.slice(0, i), last: normalized.slice(i + 1) };
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = next;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Whether two spellings plausibly name the same person: same (or one-typo)
+ * surname, and first names that are typos or short forms of each other
+ * ("Zach"/"Zachary", "Nate"/"Nathan", "Jon"/"Jon Luc").
+ */
+export function isSamePlayerName(a: string, b: string): boolean {
+  const na = splitName(a);
+  const nb = splitName(b);
+  if (
+    na.last !== nb.last &&
+    (Math.min(na.last.length, nb.last.length) < 5 || editDistance(na.last, nb.last) > 1)
+  ) {
+    return false;
+  }
+  if (na.first === nb.first) return true;
+  if (!na.first || !nb.first) return false;
+
+  let shared = 0;
+  while (
+    shared < Math.min(na.first.length, nb.first.length) &&
+    na.first[shared] === nb.first[shared]
+  ) {
+    shared++;
+  }
+  if (shared >= 3) return true;
+  return Math.min(na.first.length, nb.first.length) >= 4 && editDistance(na.first, nb.first) <= 1;
+}
+
+function collectRecords(seasons: Record<string, UlaxSeasonData>): PlayerRecord[] {
+  const records: PlayerRecord[] = [];
+  for (const [season, data] of Object.entries(seasons)) {
+    for (const p of data.roster) {
+      records.push({ season, name: p.name, number: p.number, team: p.team, position: p.position });
+    }
+    for (const s of data.playerStats) {
+      records.push({ season, name: s.name, number: s.number, team: s.team, stats: s });
+    }
+    for (const g of data.goalieStats) {
+      records.push({ season, name: g.name, number: g.number, team: g.team, goalie: g });
+    }
+  }
+  return records;
+}
+
+/**
+ * Two groups of records can't be the same player if, in a season they share,
+ * both list a number on the same team and the numbers differ.
+ */
+function conflicts(a: PlayerRecord[], b: PlayerRecord[]): boolean {
+  return a.some((ra) =>
+    b.some(
+      (rb) =>
+        ra.season === rb.season &&
+        ra.team === rb.team &&
+        ra.number !== "" &&
+        rb.number !== "" &&
+        ra.number !== rb.number,
+    ),
+  );
+}
+
+/**
+ * Merge every roster, scoring and goalie record across seasons into one
+ * profile per player. Records are grouped by exact normalized name first, then
+ * groups with near-identical names are merged unless their numbers clash.
+ */
+export function buildPlayerProfiles(
+  seasons: Record<string, UlaxSeasonData>,
+  championships: readonly UlaxChampionship[],
+): PlayerProfile[] {
+  const byName = new Map<string, PlayerRecord[]>();
+  for (const record of collectRecords(seasons)) {
+    const key = normalizePlayerName(record.name);
+    if (!key) continue;
+    if (!byName.has(key)) byName.set(key, []);
+    byName.get(key)?.push(record);
+  }
+
+  const groups: PlayerRecord[][] = [];
+  for (const records of byName.values()) {
+    const match = groups.find(
+      (group) => isSamePlayerName(group[0].name, records[0].name) && !conflicts(group, records),
+    );
+    if (match) match.push(...records);
+    else groups.push([...records]);
+  }
+
+  const usedSlugs = new Set<string>();
+  return groups
+    .map((records) => {
+      const bySeason = new Map<string, PlayerSeason>();
+      for (const r of records) {
+        const entry = bySeason.get(r.season) ?? {
+          season: r.season,
+          team: "",
+          number: "",
+          position: "",
+          stats: null,
+          goalie: null,
+        };
+        entry.team ||= r.team;
+        entry.number ||= r.number;
+        entry.position ||= r.position ?? "";
+        entry.stats ??= r.stats ?? null;
+        entry.goalie ??= r.goalie ?? null;
+        bySeason.set(r.season, entry);
+      }
+      const playerSeasons = [...bySeason.values()].sort(
+        (a, b) => seasonSortKey(b.season) - seasonSortKey(a.season),
+      );
+
+      // Most recent spelling wins (stats pages over rosters); the rest are kept
+      // as aliases
+      const rank = (r: PlayerRecord) => seasonSortKey(r.season) * 2 + (r.stats ? 1 : 0);
+      const latest = records.reduce((a, b) => (rank(b) > rank(a) ? b : a));
+      const aliases = [...new Set(records.map((r) => r.name.trim()))].filter(
+        (n) => n !== latest.name.trim(),
+      );
+
+      const totals = playerSeasons.reduce<PlayerCareerTotals>(
+        (acc, s) => ({
+          seasons: acc.seasons + 1,
+          gp: acc.gp + (s.stats?.gp ?? 0),
+          goals: acc.goals + (s.stats?.goals ?? 0),
+          assists: acc.assists + (s.stats?.assists ?? 0),
+          points: acc.points + (s.stats?.points ?? 0),
+          saves: acc.saves + (s.goalie?.saves ?? 0),
+          goalsAgainst: acc.goalsAgainst + (s.goalie?.goalsAgainst ?? 0),
+        }),
+        { seasons: 0, gp: 0, goals: 0, assists: 0, points: 0, saves: 0, goalsAgainst: 0 },
+      );
+
+      const won = championships.filter((c) =>
+        playerSeasons.some(
+          (s) =>
+            s.team &&
+            s.season === `${c.season}-${c.year}` &&
+            cleanTeamName(c.champion) === cleanTeamName(s.team),
+        ),
+      );
+
+      let slug = playerSlug(latest.name);
+      for (let n = 2; usedSlugs.has(slug); n++) slug = `${playerSlug(latest.name)}-${n}`;
+      usedSlugs.add(slug);
+
+      return {
+        slug,
+        name: latest.name.trim(),
+        aliases,
+        seasons: playerSeasons,
+        teams: [...new Set(playerSeasons.map((s) => s.team).filter(Boolean))],
+        numbers: [...new Set(playerSeasons.map((s) => s.number).filter(Boolean))],
+        totals,
+        championships: won,
+      } satisfies PlayerProfile;
+    })
+    .sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+/** Look up the profile slug for any spelling of a player's name. */
+export function profileSlugIndex(profiles: readonly PlayerProfile[]): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const profile of profiles) {
+    for (const name of [profile.name, ...profile.aliases]) {
+      index.set(normalizePlayerName(name), profile.slug);
+    }
+  }
+  return index;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+  computePlayoffPicture,
+  DEFAULT_PLAYOFF_SPOTS,
+  playoffSpots,
+  unmatchedGames,
+} from "./playoffs";
+import type { UlaxGame, UlaxStanding } from "./ulax";
+
+let nextId = 1;
+const game = (
+  home: string,
+  away: string,
+  typeName = "Regular Season",
+  gameType: UlaxGame["gameType"] = "regular",
+): UlaxGame => ({
+  id: nextId++,
+  date: "2026-07-12",
+  time: "5:00 pm",
+  field: "Beach Chalet",
+  awayTeam: away,
+  awayScore: null,
+  homeTeam: home,
+  homeScore: null,
+  gameType,
+  typeName,
+  isBarbaryCoast: home === "Barbary Coast" || away === "Barbary Coast",
+  barbaryCoastIsHome: home === "Barbary Coast",
+});
+
+const standing = (team: string, pts: number): UlaxStanding => ({
+  team,
+  gp: 0,
+  w: 0,
+  l: 0,
+  t: 0,
+  pts,
+  gf: 0,
+  ga: 0,
+});
+
+// Summer 2026 with three regular-season games left
+const standings = [
+  standing("Palo Alto Ducks", 10),
+  standing("Barbary Coast", 7),
+  standing("Sonoma County", 7),
+  standing("San Francisco", 4),
+  standing("Diablo", 2),
+  standing("Golden State Stars", 0),
+];
+const schedule = [
+  game("Diablo", "Palo Alto Ducks"),
+  game("San Francisco", "Barbary Coast"),
+  game("Sonoma County", "Golden State Stars"),
+  game("TBD", "TBD", "Semi-Finals", "playoff"),
+  game("TBD", "TBD", "Semi-Finals", "playoff"),
+  game("TBD", "TBD", "Championship", "championship"),
+];
+
+describe("playoffSpots", () => {
+  test("counts teams in the biggest playoff round", () => {
+    expect(playoffSpots(schedule)).toBe(4);
+    expect(playoffSpots([])).toBe(DEFAULT_PLAYOFF_SPOTS);
+  });
+
+  test("leaves consolation games out of the bracket", () => {
+    const consolation = [
+      game("Diablo", "Palo Alto Ducks", "Consolation", "consolation"),
+      game("San Francisco", "Golden State Stars", "Consolation", "consolation"),
+      game("Sonoma County", "Barbary Coast", "Consolation", "consolation"),
+    ];
+
+    expect(playoffSpots([...schedule, ...consolation])).toBe(4);
+  });
+});
+
+describe("computePlayoffPicture", () => {
+  test("tries every remaining result to find clinches and eliminations", () => {
+    const picture = computePlayoffPicture(standings, schedule);
+
+    expect(picture).toMatchObject({ spots: 4, remainingGames: 3, exhaustive: true });
+    expect(picture.teams.map((t) => [t.team, t.status, t.magicNumber])).toEqual([
+      ["Palo Alto Ducks", "clinched", null],
+      ["Barbary Coast", "clinched", null],
+      ["Sonoma County", "clinched", null],
+      ["San Francisco", "alive", 1],
+      ["Diablo", "alive", 5],
+      ["Golden State Stars", "eliminated", null],
+    ]);
+  });
+
+  test("leaves a possible tie on points at the cutoff undecided", () => {
+    const picture = computePlayoffPicture(
+      [standing("A", 6), standing("B", 4), standing("C", 2)],
+      [game("A", "C")],
+      2,
+    );
+
+    expect(picture.teams.map((t) => t.status)).toEqual(["clinched", "alive", "alive"]);
+  });
+
+  test("settles the final table with the tiebreakers", () => {
+    const picture = computePlayoffPicture(
+      [standing("A", 6), standing("B", 4), standing("C", 2)],
+      [],
+      2,
+    );
+
+    expect(picture.teams.map((t) => t.status)).toEqual(["clinched", "clinched", "eliminated"]);
+  });
+});
+
+describe("unmatchedGames", () => {
+  test("finds remaining games with a team the standings don't list", () => {
+    const renamed = game("Diablo Lacrosse Club", "Barbary Coast");
+
+    expect(unmatchedGames(standings, [...schedule, renamed])).toEqual([renamed]);
+    expect(unmatchedGames(standings, schedule)).toEqual([]);
+  });
+});
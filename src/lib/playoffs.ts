@@ -0,0 +1,228 @@
+import { rankStandings } from "./standings";
+import { cleanTeamName } from "./team";
+import type { UlaxGame, UlaxStanding } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PlayoffStatus = "clinched" | "eliminated" | "alive";
+
+export interface PlayoffOutlook {
+  team: string;
+  status: PlayoffStatus;
+  // Points this team must gain, or its closest pursuer must fail to earn, to
+  // clinch on points alone; null once clinched or eliminated
+  magicNumber: number | null;
+  maxPoints: number;
+}
+
+export interface PlayoffPicture {
+  spots: number;
+  remainingGames: number;
+  // false when there were too many games left to try every result, and
+  // statuses come from points bounds instead
+  exhaustive: boolean;
+  teams: PlayoffOutlook[]; // same order as the standings passed in
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Semifinals between the top four is the usual ULAX format. */
+export const DEFAULT_PLAYOFF_SPOTS = 4;
+
+// 3^10 = 59,049 scenarios; beyond that fall back to points bounds
+const MAX_ENUMERATED_GAMES = 10;
+
+const WIN_POINTS = 2;
+const TIE_POINTS = 1;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isUnscored(game: UlaxGame): boolean {
+  return game.homeScore === null || game.awayScore === null;
+}
+
+function isTBD(game: UlaxGame): boolean {
+  return game.homeTeam === "TBD" || game.awayTeam === "TBD";
+}
+
+// Unscored regular-season games with both teams known
+function remainingGames(schedule: readonly UlaxGame[]): UlaxGame[] {
+  return schedule.filter((g) => g.gameType === "regular" && isUnscored(g) && !isTBD(g));
+}
+
+/**
+ * Remaining games with a team the standings don't list, which the playoff
+ * picture has to leave out. Usually means ULAX renamed a team on one page
+ * but not the other, so the sync reports them.
+ */
+export function unmatchedGames(
+  standings: readonly UlaxStanding[],
+  schedule: readonly UlaxGame[],
+): UlaxGame[] {
+  const teams = new Set(standings.map((s) => cleanTeamName(s.team)));
+  return remainingGames(schedule).filter(
+    (g) => !teams.has(cleanTeamName(g.homeTeam)) || !teams.has(cleanTeamName(g.awayTeam)),
+  );
+}
+
+/**
+ * Playoff spots implied by the bracket on the schedule: two teams per game in
+ * the biggest round. Rounds are often played on the same day, so they're told
+ * apart by name rather than date. Consolation games aren't part of the
+ * bracket. Falls back to the ULAX default when the
+ * bracket hasn't been posted.
+ */
+export function playoffSpots(schedule: readonly UlaxGame[]): number {
+  const rounds = new Map<string, number>();
+  for (const g of schedule) {
+    if (g.gameType !== "playoff" && g.gameType !== "championship") continue;
+    rounds.set(g.typeName, (rounds.get(g.typeName) ?? 0) + 1);
+  }
+  if (rounds.size === 0) return DEFAULT_PLAYOFF_SPOTS;
+  return Math.max(...rounds.values()) * 2;
+}
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+/**
+ * Work out who has clinched a playoff spot or been eliminated from the
+ * remaining unscored regular-season games. With few enough games left every
+ * win/loss/tie combination is tried; a team is clinched when it finishes in
+ * the top `spots` in all of them. Ties on points at the cutoff count as
+ * undecided, because the goal-based tiebreakers depend on scores that haven't
+ * happened yet.
+ */
+export function computePlayoffPicture(
+  standings: readonly UlaxStanding[],
+  schedule: readonly UlaxGame[],
+  spots = playoffSpots(schedule),
+): PlayoffPicture {
+  const teams = standings.map((s) => cleanTeamName(s.team));
+  const points = standings.map((s) => s.pts);
+
+  // Games unmatchedGames() reports are left out
+  const remaining = remainingGames(schedule)
+    .map((g) => ({
+      home: teams.indexOf(cleanTeamName(g.homeTeam)),
+      away: teams.indexOf(cleanTeamName(g.awayTeam)),
+    }))
+    .filter((g) => g.home !== -1 && g.away !== -1);
+
+  const maxPoints = points.map(
+    (pts, i) => pts + remaining.filter((g) => g.home === i || g.away === i).length * WIN_POINTS,
+  );
+
+  const outlook = (status: PlayoffStatus, i: number): PlayoffOutlook => ({
+    team: standings[i].team,
+    status,
+    magicNumber: status === "alive" ? magicNumber(i, points, maxPoints, spots) : null,
+    maxPoints: maxPoints[i],
+  });
+
+  // Everyone makes it, or the table is final and the tiebreakers can settle it
+  if (teams.length <= spots || remaining.length === 0) {
+    const ranked = rankStandings(standings, schedule);
+    return {
+      spots,
+      remainingGames: remaining.length,
+      exhaustive: true,
+      teams: standings.map((s, i) =>
+        outlook(
+          (ranked.find((r) => r.team === s.team)?.rank ?? Infinity) <= spots
+            ? "clinched"
+            : "eliminated",
+          i,
+        ),
+      ),
+    };
+  }
+
+  const exhaustive = remaining.length <= MAX_ENUMERATED_GAMES;
+  const statuses = exhaustive
+    ? enumerateStatuses(points, remaining, spots)
+    : boundStatuses(points, maxPoints, spots);
+
+  return {
+    spots,
+    remainingGames: remaining.length,
+    exhaustive,
+    teams: statuses.map(outlook),
+  };
+}
+
+function enumerateStatuses(
+  points: readonly number[],
+  remaining: readonly { home: number; away: number }[],
+  spots: number,
+): PlayoffStatus[] {
+  const alwaysIn = points.map(() => true);
+  const alwaysOut = points.map(() => true);
+  const scenario = [...points];
+
+  const visit = (gameIndex: number) => {
+    if (gameIndex === remaining.length) {
+      for (let i = 0; i < scenario.length; i++) {
+        const above = scenario.filter((pts) => pts > scenario[i]).length;
+        const level = scenario.filter((pts, j) => j !== i && pts === scenario[i]).length;
+        if (above + level >= spots) alwaysIn[i] = false;
+        if (above < spots) alwaysOut[i] = false;
+      }
+      return;
+    }
+
+    const { home, away } = remaining[gameIndex];
+    for (const [homePts, awayPts] of [
+      [WIN_POINTS, 0],
+      [0, WIN_POINTS],
+      [TIE_POINTS, TIE_POINTS],
+    ]) {
+      scenario[home] += homePts;
+      scenario[away] += awayPts;
+      visit(gameIndex + 1);
+      scenario[home] -= homePts;
+      scenario[away] -= awayPts;
+    }
+  };
+  visit(0);
+
+  return points.map((_, i) => (alwaysIn[i] ? "clinched" : alwaysOut[i] ? "eliminated" : "alive"));
+}
+
+/** Points-only bounds: safe but can miss clinches that depend on who plays whom. */
+function boundStatuses(
+  points: readonly number[],
+  maxPoints: readonly number[],
+  spots: number,
+): PlayoffStatus[] {
+  return points.map((pts, i) => {
+    const canCatch = maxPoints.filter((max, j) => j !== i && max >= pts).length;
+    const alreadyAhead = points.filter((other, j) => j !== i && other > maxPoints[i]).length;
+    if (canCatch < spots) return "clinched";
+    if (alreadyAhead >= spots) return "eliminated";
+    return "alive";
+  });
+}
+
+/**
+ * The team's clinch threshold is set by the pursuer with the `spots`-th best
+ * ceiling among everyone else: once the team has more points than that
+ * pursuer can reach, at most `spots - 1` teams can finish level or ahead.
+ */
+function magicNumber(
+  i: number,
+  points: readonly number[],
+  maxPoints: readonly number[],
+  spots: number,
+): number {
+  const ceilings = maxPoints.filter((_, j) => j !== i).sort((a, b) => b - a);
+  const threshold = ceilings[spots - 1] ?? 0;
+  return Math.max(threshold - points[i] + 1, 0);
+}
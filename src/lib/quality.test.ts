@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { validateUlaxData } from "./quality";
+import type { UlaxAllData, UlaxGame, UlaxSeasonData, UlaxStanding } from "./ulax";
+
+const game = (id: number, home: string, away: string, overrides: Partial<UlaxGame> = {}) =>
+  ({
+    id,
+    date: "2026-07-12",
+    time: "5:00 pm",
+    field: "Beach Chalet",
+    awayTeam: away,
+    awayScore: null,
+    homeTeam: home,
+    homeScore: null,
+    gameType: "regular",
+    typeName: "Regular Season",
+    isBarbaryCoast: home === "Barbary Coast" || away === "Barbary Coast",
+    barbaryCoastIsHome: home === "Barbary Coast",
+    ...overrides,
+  }) satisfies UlaxGame;
+
+const standing = (team: string, gp: number): UlaxStanding => ({
+  team,
+  gp,
+  w: 0,
+  l: 0,
+  t: 0,
+  pts: 0,
+  gf: 0,
+  ga: 0,
+});
+
+const season = (overrides: Partial<UlaxSeasonData> = {}): UlaxSeasonData => ({
+  schedule: [
+    game(1, "Barbary Coast", "Diablo", { homeScore: 9, awayScore: 3 }),
+    game(2, "Diablo", "Barbary Coast", { homeScore: 4, awayScore: 6, gameType: "playoff" }),
+    game(3, "Barbary Coast", "Diablo"),
+  ],
+  standings: [standing("Barbary Coast", 1), standing("Diablo", 2)],
+  playerStats: [],
+  goalieStats: [],
+  roster: [
+    {
+      name: "Sam Reyes",
+      number: "7",
+      position: "A",
+      height: "",
+      weight: "",
+      age: "",
+      homeTown: "",
+      team: "Barbary Coast",
+      isCaptain: false,
+      isAssistantCaptain: false,
+    },
+  ],
+  ...overrides,
+});
+
+const allData = (seasons: Record<string, UlaxSeasonData>): UlaxAllData => ({
+  currentSeason: "summer",
+  currentYear: 2026,
+  seasons,
+  championships: [],
+  barbaryCoast: {
+    allTime: { wins: 0, losses: 0, ties: 0, titles: 0, goalsFor: 0, goalsAgainst: 0 },
+    seasons: [],
+  },
+  fetchedAt: "2026-07-13T06:00:00.000Z",
+});
+
+describe("validateUlaxData", () => {
+  test("accepts GP counted with or without playoff games", () => {
+    const data = allData({ "summer-2026": season() });
+    expect(validateUlaxData(data, data)).toEqual([]);
+  });
+
+  test("rejects data that doesn't match the schema", () => {
+    const data = allData({ "summer-2026": season() });
+    const broken = { ...data, seasons: { "summer-2026": { ...season(), standings: "oops" } } };
+
+    expect(validateUlaxData(broken)).toHaveLength(1);
+    expect(validateUlaxData({ ...data, currentSeason: "fall" })[0]).toContain("currentSeason");
+  });
+
+  test("flags standings that disagree with the scored games", () => {
+    const data = allData({
+      "summer-2026": season({ standings: [standing("Barbary Coast", 3), standing("Diablo", 2)] }),
+    });
+    expect(validateUlaxData(data)).toEqual([
+      "summer-2026: Barbary Coast has 3 GP in the standings but 1-2 scored games",
+    ]);
+  });
+
+  test("flags scores going backwards and sections emptied since the last sync", () => {
+    const before = allData({ "summer-2026": season(), "spring-2026": season() });
+    const after = allData({
+      "summer-2026": season({
+        schedule: [game(1, "Barbary Coast", "Diablo"), game(3, "Barbary Coast", "Diablo")],
+        standings: [],
+        roster: [],
+      }),
+    });
+
+    expect(validateUlaxData(after, before)).toEqual([
+      "summer-2026: standings went from 2 entries to none",
+      "summer-2026: roster went from 1 entries to none",
+      "summer-2026: score for Diablo @ Barbary Coast on 2026-07-12 (#1) disappeared",
+      "summer-2026: scored game Barbary Coast @ Diablo on 2026-07-12 (#2) is no longer on the schedule",
+      "spring-2026: season is missing",
+    ]);
+  });
+});
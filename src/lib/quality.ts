@@ -0,0 +1,93 @@
+import { Either, ParseResult, Schema } from "effect";
+import { cleanTeamName } from "./team";
+import { type UlaxAllData, UlaxAllDataSchema, type UlaxGame, type UlaxSeasonData } from "./ulax";
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function isScored(game: UlaxGame): boolean {
+  return game.homeScore !== null && game.awayScore !== null;
+}
+
+function describeGame(game: UlaxGame): string {
+  return `${game.awayTeam} @ ${game.homeTeam} on ${game.date} (#${game.id})`;
+}
+
+/**
+ * Games played should agree with the schedule. Live standings count regular
+ * season games only, but the archive tables include playoffs, so anything
+ * between the two counts is accepted.
+ */
+function checkGamesPlayed(data: UlaxSeasonData): string[] {
+  if (data.schedule.length === 0) return [];
+
+  const regular = new Map<string, number>();
+  const all = new Map<string, number>();
+  for (const game of data.schedule.filter(isScored)) {
+    for (const team of [cleanTeamName(game.homeTeam), cleanTeamName(game.awayTeam)]) {
+      all.set(team, (all.get(team) ?? 0) + 1);
+      if (game.gameType === "regular") regular.set(team, (regular.get(team) ?? 0) + 1);
+    }
+  }
+
+  return data.standings.flatMap((s) => {
+    const team = cleanTeamName(s.team);
+    const min = regular.get(team) ?? 0;
+    const max = all.get(team) ?? 0;
+    if (s.gp >= min && s.gp <= max) return [];
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    return [`${team} has ${s.gp} GP in the standings but ${expected} scored games`];
+  });
+}
+
+const MUST_NOT_EMPTY = ["schedule", "standings", "roster", "playerStats"] as const;
+
+/** Things a good sync never does to a season that was already stored. */
+function checkRegressions(before: UlaxSeasonData, after: UlaxSeasonData): string[] {
+  const issues: string[] = [];
+
+  for (const field of MUST_NOT_EMPTY) {
+    if (before[field].length > 0 && after[field].length === 0) {
+      issues.push(`${field} went from ${before[field].length} entries to none`);
+    }
+  }
+
+  const current = new Map(after.schedule.map((g) => [g.id, g]));
+  for (const game of before.schedule.filter(isScored)) {
+    const now = current.get(game.id);
+    if (!now) {
+      issues.push(`scored game ${describeGame(game)} is no longer on the schedule`);
+    } else if (!isScored(now)) {
+      issues.push(`score for ${describeGame(game)} disappeared`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Problems that suggest ulax.org served an error page or changed its markup,
+ * as "season: message" lines. Empty when the data is safe to write.
+ */
+export function validateUlaxData(data: unknown, previous?: UlaxAllData): string[] {
+  const decoded = Schema.decodeUnknownEither(UlaxAllDataSchema)(data);
+  if (Either.isLeft(decoded)) {
+    return [ParseResult.TreeFormatter.formatErrorSync(decoded.left)];
+  }
+  const seasons = decoded.right.seasons as Record<string, UlaxSeasonData>;
+
+  const issues: string[] = [];
+  for (const [key, season] of Object.entries(seasons)) {
+    const before = previous?.seasons[key];
+    const found = [
+      ...checkGamesPlayed(season),
+      ...(before ? checkRegressions(before, season) : []),
+    ];
+    issues.push(...found.map((message) => `${key}: ${message}`));
+  }
+  for (const key of Object.keys(previous?.seasons ?? {})) {
+    if (!(key in seasons)) issues.push(`${key}: season is missing`);
+  }
+  return issues;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { detectCurrentSeason, seasonYear } from "./season";
+import type { UlaxGame } from "./ulax";
+
+const games = (...dates: string[]): UlaxGame[] =>
+  dates.map((date, i) => ({
+    id: i + 1,
+    date,
+    time: "5:00 pm",
+    field: "Beach Chalet",
+    awayTeam: "Olympic Club",
+    awayScore: null,
+    homeTeam: "Barbary Coast",
+    homeScore: null,
+    gameType: "regular",
+    typeName: "Regular Season",
+    isBarbaryCoast: true,
+    barbaryCoastIsHome: true,
+  }));
+
+const schedules = {
+  winter: games("2025-12-14", "2026-01-11", "2026-02-22"),
+  spring: games("2026-04-05", "2026-05-17", "2026-06-20"),
+  summer: games("2026-06-14", "2026-07-12", "2026-08-09"),
+};
+
+describe("seasonYear", () => {
+  test("uses the year most games are played in", () => {
+    expect(seasonYear(schedules.winter)).toBe(2026);
+    expect(seasonYear(games("2025-12-07", "2026-01-11"))).toBe(2026);
+    expect(seasonYear([])).toBeNull();
+  });
+});
+
+describe("detectCurrentSeason", () => {
+  test("picks the season being played", () => {
+    expect(detectCurrentSeason(schedules, "2026-01-20")).toEqual({ season: "winter", year: 2026 });
+    expect(detectCurrentSeason(schedules, "2026-07-20")).toEqual({ season: "summer", year: 2026 });
+  });
+
+  test("hands over once the earlier season's last game is played", () => {
+    // Both under way on the 15th; spring's final is sooner than summer's next game
+    expect(detectCurrentSeason(schedules, "2026-06-15")).toEqual({ season: "spring", year: 2026 });
+    expect(detectCurrentSeason(schedules, "2026-06-21")).toEqual({ season: "summer", year: 2026 });
+  });
+
+  test("falls back to the nearest game between seasons", () => {
+    expect(detectCurrentSeason(schedules, "2026-03-01")).toEqual({ season: "winter", year: 2026 });
+    expect(detectCurrentSeason(schedules, "2026-03-30")).toEqual({ season: "spring", year: 2026 });
+    expect(detectCurrentSeason(schedules, "2026-10-01")).toEqual({ season: "summer", year: 2026 });
+  });
+
+  test("returns null with nothing scheduled", () => {
+    expect(detectCurrentSeason({ winter: [] }, "2026-01-20")).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { Schema } from "effect";
+import seasonConfig from "../config/season.json";
+import { daysBetween, pacificToday } from "./date";
+import { type Season, SeasonSchema, type UlaxGame } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SeasonRef = Schema.Struct({
+  season: SeasonSchema,
+  year: Schema.Number,
+});
+export type SeasonRef = typeof SeasonRef.Type;
+
+export const SeasonConfig = Schema.Struct({
+  // Pins the current season when detection gets it wrong, e.g.
+  // { "season": "summer", "year": 2026 }; null to detect from the schedules
+  override: Schema.NullOr(SeasonRef),
+});
+export type SeasonConfig = typeof SeasonConfig.Type;
+
+/** Current-season override from src/config/season.json. */
+export const SEASON_CONFIG: SeasonConfig = Schema.decodeUnknownSync(SeasonConfig)(seasonConfig);
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * The year a season's games fall in: whichever year most of them are played,
+ * the later one on a tie. Null for an empty schedule.
+ */
+export function seasonYear(schedule: readonly UlaxGame[]): number | null {
+  const counts = new Map<number, number>();
+  for (const g of schedule) {
+    const year = Number(g.date.slice(0, 4));
+    if (year) counts.set(year, (counts.get(year) ?? 0) + 1);
+  }
+  let best: number | null = null;
+  for (const [year, count] of counts) {
+    if (
+      best === null ||
+      count > (counts.get(best) ?? 0) ||
+      (count === counts.get(best) && year > best)
+    ) {
+      best = year;
+    }
+  }
+  return best;
+}
+
+/**
+ * Pick the season in play from what ulax.org is currently serving. A season
+ * whose games span today wins outright; otherwise the one with the nearest
+ * upcoming or most recent game, preferring upcoming on a tie. Overlapping
+ * seasons resolve to the one with the sooner next game.
+ */
+export function detectCurrentSeason(
+  schedules: Partial<Record<Season, readonly UlaxGame[]>>,
+  today: string = pacificToday(),
+): SeasonRef | null {
+  const candidates: { ref: SeasonRef; inProgress: boolean; distance: number; upcoming: boolean }[] =
+    [];
+
+  for (const [season, schedule] of Object.entries(schedules) as [Season, UlaxGame[]][]) {
+    const year = seasonYear(schedule);
+    if (year === null) continue;
+
+    const dates = schedule.map((g) => g.date).sort();
+    const next = dates.find((d) => d >= today);
+    candidates.push({
+      ref: { season, year },
+      inProgress: dates[0] <= today && next !== undefined,
+      distance: Math.abs(daysBetween(today, next ?? dates[dates.length - 1])),
+      upcoming: next !== undefined,
+    });
+  }
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.inProgress) - Number(a.inProgress) ||
+      a.distance - b.distance ||
+      Number(b.upcoming) - Number(a.upcoming),
+  );
+  return candidates[0]?.ref ?? null;
+}
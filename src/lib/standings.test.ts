@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import {
+  compareStandings,
+  describeTiebreaker,
+  rankStandings,
+  standingsFromSchedule,
+} from "./standings";
+import type { UlaxGame, UlaxStanding } from "./ulax";
+
+let nextId = 1;
+const game = (
+  home: string,
+  homeScore: number,
+  away: string,
+  awayScore: number,
+  gameType: UlaxGame["gameType"] = "regular",
+): UlaxGame => ({
+  id: nextId++,
+  date: "2025-03-01",
+  time: "5:00 pm",
+  field: "Beach Chalet",
+  awayTeam: away,
+  awayScore,
+  homeTeam: home,
+  homeScore,
+  gameType,
+  typeName: gameType === "regular" ? "Regular Season" : "Championship",
+  isBarbaryCoast: home === "Barbary Coast" || away === "Barbary Coast",
+  barbaryCoastIsHome: home === "Barbary Coast",
+});
+
+const standing = (team: string, pts: number, gf: number, ga: number): UlaxStanding => ({
+  team,
+  gp: 0,
+  w: 0,
+  l: 0,
+  t: 0,
+  pts,
+  gf,
+  ga,
+});
+
+describe("rankStandings", () => {
+  test("breaks a points tie on head-to-head before goal difference", () => {
+    const ranked = rankStandings(
+      [standing("Olympic Club", 6, 40, 10), standing("Barbary Coast", 6, 30, 20)],
+      [game("Barbary Coast", 5, "Olympic Club", 4)],
+    );
+
+    expect(ranked.map((s) => s.team)).toEqual(["Barbary Coast", "Olympic Club"]);
+    expect(ranked[0]).toMatchObject({ rank: 1, tiebreaker: "head-to-head" });
+    expect(describeTiebreaker(ranked[0])).toBe(
+      "Tied on 6 pts with Olympic Club; decided by head-to-head",
+    );
+  });
+
+  test("falls through to goal difference, goals for and goals against", () => {
+    const ranked = rankStandings(
+      [
+        standing("A", 4, 20, 15),
+        standing("B", 4, 25, 15),
+        standing("C", 4, 30, 20),
+        standing("D", 2, 10, 10),
+      ],
+      [],
+    );
+
+    expect(ranked.map((s) => [s.team, s.tiebreaker])).toEqual([
+      ["C", "goals-for"],
+      ["B", "goals-for"],
+      ["A", "goal-difference"],
+      ["D", null],
+    ]);
+  });
+
+  test("restarts head-to-head once a three-way tie is split", () => {
+    // Each beat one of the others; A and B share the best goal difference and B beat A
+    const ranked = rankStandings(
+      [standing("A", 4, 30, 20), standing("B", 4, 25, 15), standing("C", 4, 20, 20)],
+      [game("A", 3, "C", 1), game("C", 3, "B", 1), game("B", 6, "A", 5)],
+    );
+
+    expect(ranked.map((s) => [s.team, s.tiebreaker])).toEqual([
+      ["B", "head-to-head"],
+      ["A", "head-to-head"],
+      ["C", "goal-difference"],
+    ]);
+  });
+
+  test("marks ties nothing can separate", () => {
+    const ranked = rankStandings([standing("B", 2, 5, 5), standing("A", 2, 5, 5)], []);
+
+    expect(ranked.map((s) => [s.team, s.tiebreaker])).toEqual([
+      ["A", "unresolved"],
+      ["B", "unresolved"],
+    ]);
+  });
+});
+
+describe("standingsFromSchedule", () => {
+  test("counts regular-season games only", () => {
+    const standings = standingsFromSchedule([
+      game("Barbary Coast", 8, "Marin", 2),
+      game("Marin", 4, "Barbary Coast", 4),
+      game("Marin", 9, "Barbary Coast", 1, "championship"),
+    ]);
+
+    expect(standings).toEqual([
+      { team: "Barbary Coast", gp: 2, w: 1, l: 0, t: 1, pts: 3, gf: 12, ga: 6 },
+      { team: "Marin", gp: 2, w: 0, l: 1, t: 1, pts: 1, gf: 6, ga: 12 },
+    ]);
+  });
+});
+
+describe("compareStandings", () => {
+  test("reports field differences and teams missing on either side", () => {
+    const official = [
+      { ...standing("Barbary Coast", 16, 76, 21), gp: 8, w: 8 },
+      { ...standing("Bar Down Boys", 0, 15, 69), gp: 7, l: 7 },
+    ];
+    const computed = [
+      { ...standing("Barbary Coast", 14, 70, 21), gp: 7, w: 7 },
+      { ...standing("Palo Alto Ducks", 8, 45, 39), gp: 8, w: 4, l: 4 },
+    ];
+
+    expect(compareStandings(official, computed)).toEqual([
+      {
+        team: "Barbary Coast",
+        differences: [
+          "gp 8 official, 7 computed",
+          "w 8 official, 7 computed",
+          "pts 16 official, 14 computed",
+          "gf 76 official, 70 computed",
+        ],
+      },
+      { team: "Bar Down Boys", differences: ["no games on the schedule"] },
+      { team: "Palo Alto Ducks", differences: ["missing from official standings"] },
+    ]);
+    expect(compareStandings(official, official)).toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+import { cleanTeamName } from "./team";
+import type { UlaxGame, UlaxStanding } from "./ulax";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Criteria after points, in the order ULAX applies them */
+export type Tiebreaker = "head-to-head" | "goal-difference" | "goals-for" | "goals-against";
+
+export interface RankedStanding extends UlaxStanding {
+  rank: number;
+  // Criterion that separated this team from the others level on points; null
+  // when no other team had the same points, "unresolved" when nothing did
+  tiebreaker: Tiebreaker | "unresolved" | null;
+  tiedWith: string[];
+}
+
+export const TIEBREAKERS: readonly Tiebreaker[] = [
+  "head-to-head",
+  "goal-difference",
+  "goals-for",
+  "goals-against",
+];
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker | "unresolved", string> = {
+  "head-to-head": "head-to-head",
+  "goal-difference": "goal difference",
+  "goals-for": "goals for",
+  "goals-against": "goals against",
+  unresolved: "still tied after every tiebreaker",
+};
+
+export interface StandingsMismatch {
+  team: string;
+  differences: string[]; // e.g. "pts 16 official, 14 computed"
+}
+
+const WIN_POINTS = 2;
+const TIE_POINTS = 1;
+
+// ============================================================================
+// Standings
+// ============================================================================
+
+function isScored(game: UlaxGame): game is UlaxGame & { homeScore: number; awayScore: number } {
+  return game.homeScore !== null && game.awayScore !== null;
+}
+
+/** Regular-season results only; playoff games don't count toward standings. */
+function leagueGames(games: readonly UlaxGame[]) {
+  return games.filter((g) => g.gameType === "regular").filter(isScored);
+}
+
+/**
+ * Build a standings table from scored regular-season games, for seasons where
+ * only the schedule is available (archives). `withPostseason` counts playoff
+ * games too, as the archive tables do. Rows come back in rank order.
+ */
+export function standingsFromSchedule(
+  games: readonly UlaxGame[],
+  { withPostseason = false } = {},
+): UlaxStanding[] {
+  const teams = new Map<string, UlaxStanding>();
+
+  for (const g of withPostseason ? games.filter(isScored) : leagueGames(games)) {
+    for (const side of ["away", "home"] as const) {
+      const team = cleanTeamName(side === "away" ? g.awayTeam : g.homeTeam);
+      const gf = side === "away" ? g.awayScore : g.homeScore;
+      const ga = side === "away" ? g.homeScore : g.awayScore;
+
+      const s = teams.get(team) ?? { team, gp: 0, w: 0, l: 0, t: 0, pts: 0, gf: 0, ga: 0 };
+      s.gp++;
+      s.gf += gf;
+      s.ga += ga;
+      if (gf > ga) {
+        s.w++;
+        s.pts += WIN_POINTS;
+      } else if (gf < ga) {
+        s.l++;
+      } else {
+        s.t++;
+        s.pts += TIE_POINTS;
+      }
+      teams.set(team, s);
+    }
+  }
+
+  return rankStandings([...teams.values()], games).map(
+    ({ rank: _rank, tiebreaker: _tiebreaker, tiedWith: _tiedWith, ...standing }) => standing,
+  );
+}
+
+// ============================================================================
+// Tiebreakers
+// ============================================================================
+
+/** Points earned in games played only among `group`. */
+function headToHeadPoints(team: string, group: readonly string[], games: readonly UlaxGame[]) {
+  let pts = 0;
+  for (const g of leagueGames(games)) {
+    const home = cleanTeamName(g.homeTeam);
+    const away = cleanTeamName(g.awayTeam);
+    if (!group.includes(home) || !group.includes(away)) continue;
+    if (home !== team && away !== team) continue;
+
+    const gf = home === team ? g.homeScore : g.awayScore;
+    const ga = home === team ? g.awayScore : g.homeScore;
+    pts += gf > ga ? WIN_POINTS : gf === ga ? TIE_POINTS : 0;
+  }
+  return pts;
+}
+
+/** Higher is better for every criterion. */
+function criterionValue(
+  criterion: Tiebreaker,
+  team: UlaxStanding,
+  group: readonly UlaxStanding[],
+  games: readonly UlaxGame[],
+): number {
+  switch (criterion) {
+    case "head-to-head":
+      return headToHeadPoints(
+        cleanTeamName(team.team),
+        group.map((t) => cleanTeamName(t.team)),
+        games,
+      );
+    case "goal-difference":
+      return team.gf - team.ga;
+    case "goals-for":
+      return team.gf;
+    case "goals-against":
+      return -team.ga;
+  }
+}
+
+function bucketBy<T>(items: readonly T[], value: (item: T) => number): T[][] {
+  const buckets = new Map<number, T[]>();
+  for (const item of items) {
+    const v = value(item);
+    buckets.set(v, [...(buckets.get(v) ?? []), item]);
+  }
+  return [...buckets.entries()].sort(([a], [b]) => b - a).map(([, bucket]) => bucket);
+}
+
+/**
+ * Order a group of teams level on points. Criteria are tried in order until
+ * one splits the group; any smaller group left tied starts over from
+ * head-to-head, since results among fewer teams can now separate them.
+ */
+function breakTie(
+  group: readonly UlaxStanding[],
+  games: readonly UlaxGame[],
+): { team: UlaxStanding; tiebreaker: RankedStanding["tiebreaker"] }[] {
+  for (const criterion of TIEBREAKERS) {
+    const buckets = bucketBy(group, (team) => criterionValue(criterion, team, group, games));
+    if (buckets.length === 1) continue;
+
+    return buckets.flatMap((bucket) =>
+      bucket.length === 1 ? [{ team: bucket[0], tiebreaker: criterion }] : breakTie(bucket, games),
+    );
+  }
+
+  return [...group]
+    .sort((a, b) => a.team.localeCompare(b.team))
+    .map((team) => ({ team, tiebreaker: "unresolved" as const }));
+}
+
+/**
+ * Sort standings by points, then the ULAX tiebreakers: head-to-head results
+ * among the tied teams, goal difference, goals for, and fewest goals against.
+ * `games` is the season's schedule, used for head-to-head.
+ */
+export function rankStandings(
+  standings: readonly UlaxStanding[],
+  games: readonly UlaxGame[],
+): RankedStanding[] {
+  const ranked: RankedStanding[] = [];
+
+  for (const group of bucketBy(standings, (s) => s.pts)) {
+    const ordered =
+      group.length === 1 ? [{ team: group[0], tiebreaker: null }] : breakTie(group, games);
+    for (const { team, tiebreaker } of ordered) {
+      ranked.push({
+        ...team,
+        rank: ranked.length + 1,
+        tiebreaker,
+        tiedWith: group.filter((t) => t !== team).map((t) => t.team),
+      });
+    }
+  }
+
+  return ranked;
+}
+
+/** Tooltip text explaining how a tied position was decided. */
+export function describeTiebreaker(standing: RankedStanding): string | null {
+  if (!standing.tiebreaker) return null;
+  const tied = `Tied on ${standing.pts} pts with ${standing.tiedWith.join(", ")}`;
+  return standing.tiebreaker === "unresolved"
+    ? `${tied}; ${TIEBREAKER_LABELS.unresolved}`
+    : `${tied}; decided by ${TIEBREAKER_LABELS[standing.tiebreaker]}`;
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+const COMPARED_FIELDS = ["gp", "w", "l", "t", "pts", "gf", "ga"] as const;
+
+/**
+ * Differences between the league's published standings and ones rebuilt from
+ * the schedule, team by team. Published tables can use other point values or
+ * include forfeits the schedule doesn't show, so these are worth a look but
+ * aren't errors.
+ */
+export function compareStandings(
+  official: readonly UlaxStanding[],
+  computed: readonly UlaxStanding[],
+): StandingsMismatch[] {
+  const computedByTeam = new Map(computed.map((s) => [cleanTeamName(s.team), s]));
+  const mismatches: StandingsMismatch[] = [];
+
+  for (const o of official) {
+    const team = cleanTeamName(o.team);
+    const c = computedByTeam.get(team);
+    computedByTeam.delete(team);
+    if (!c) {
+      mismatches.push({ team, differences: ["no games on the schedule"] });
+      continue;
+    }
+    const differences = COMPARED_FIELDS.filter((field) => o[field] !== c[field]).map(
+      (field) => `${field} ${o[field]} official, ${c[field]} computed`,
+    );
+    if (differences.length > 0) mismatches.push({ team, differences });
+  }
+
+  for (const team of computedByTeam.keys()) {
+    mismatches.push({ team, differences: ["missing from official standings"] });
+  }
+
+  return mismatches;
+}
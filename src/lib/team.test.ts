@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { isOurTeam, type TeamConfig } from "./team";
+
+const team: TeamConfig = {
+  name: "Barbary Coast",
+  fullName: "Barbary Coast Lacrosse",
+  aliases: ["Barbary Coast A"],
+  league: { slug: "sanfran", path: "sanfrancisco/men", division: "Men's Field" },
+};
+
+describe("isOurTeam", () => {
+  test("matches the configured name and aliases exactly", () => {
+    expect(isOurTeam("Barbary Coast", team)).toBe(true);
+    expect(isOurTeam("barbary  coast a", team)).toBe(true);
+    expect(isOurTeam("Barbary Coast B", team)).toBe(false);
+    expect(isOurTeam("Olympic Club", team)).toBe(false);
+  });
+
+  test("ignores the champion's trophy markup", () => {
+    expect(isOurTeam('<i class="fas fa-trophy"></i> Barbary Coast', team)).toBe(true);
+  });
+});
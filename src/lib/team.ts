@@ -0,0 +1,44 @@
+import { Schema } from "effect";
+import teamConfig from "../config/team.json";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const TeamConfig = Schema.Struct({
+  name: Schema.String, // as ULAX lists us, e.g. "Barbary Coast"
+  fullName: Schema.String, // site and feed titles
+  // Other names ULAX has used for the same team; matched exactly, so a
+  // "Barbary Coast B" entry isn't mistaken for us unless it's listed here
+  aliases: Schema.Array(Schema.String),
+  league: Schema.Struct({
+    slug: Schema.String, // getDataSeasons.php ?league=
+    path: Schema.String, // ulax.org/<path>/<season>/standings
+    division: Schema.String,
+  }),
+});
+export type TeamConfig = typeof TeamConfig.Type;
+
+/** The team this site is for, from src/config/team.json. */
+export const TEAM: TeamConfig = Schema.decodeUnknownSync(TeamConfig)(teamConfig);
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Strip markup ULAX embeds in team names, e.g. the trophy icon prepended to the
+ * season champion: '<i class="fas fa-trophy" ...></i> Barbary Coast' -> "Barbary Coast".
+ */
+export function cleanTeamName(name: string): string {
+  return name
+    .replace(/<[^>]*>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Whether a ULAX team name (schedule, standings, stats or champion) is us. */
+export function isOurTeam(name: string, team: TeamConfig = TEAM): boolean {
+  const key = cleanTeamName(name).toLowerCase();
+  return [team.name, ...team.aliases].some((n) => cleanTeamName(n).toLowerCase() === key);
+}
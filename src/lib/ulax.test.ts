@@ -0,0 +1,357 @@
+import { describe, expect, test } from "bun:test";
+import { BunContext } from "@effect/platform-bun";
+import { Effect, Either, Layer, Logger, LogLevel, Option } from "effect";
+import { fixtureLayer } from "./http-fixtures";
+import { buildPlayerProfiles } from "./players";
+import { parsePlayerName, UlaxService, UlaxServiceLive } from "./ulax";
+
+// Recorded from ulax.org by `bun run fixtures:record`
+const FIXTURES = new URL("./__fixtures__/ulax", import.meta.url).pathname;
+const MALFORMED = new URL("./__fixtures__/ulax-malformed", import.meta.url).pathname;
+// Hand-written roster and stats pages (team logos, captain badges, blank
+// cells), served over the recorded fixtures; not what ulax.org serves today
+const SYNTHETIC = [new URL("./__fixtures__/ulax-synthetic", import.meta.url).pathname, FIXTURES];
+
+const serviceFrom = (dirs: string | readonly string[]) =>
+  UlaxServiceLive.pipe(
+    Layer.provide(fixtureLayer(...[dirs].flat())),
+    Layer.provide(BunContext.layer),
+  );
+
+const runEither = <A, E>(
+  dirs: string | readonly string[],
+  f: (service: UlaxService["Type"]) => Effect.Effect<A, E>,
+) =>
+  Effect.runPromise(
+    Effect.flatMap(UlaxService, f).pipe(
+      Effect.provide(serviceFrom(dirs)),
+      Logger.withMinimumLogLevel(LogLevel.Error),
+      Effect.either,
+    ),
+  );
+
+const run = <A, E>(
+  dirs: string | readonly string[],
+  f: (service: UlaxService["Type"]) => Effect.Effect<A, E>,
+) => runEither(dirs, f).then(Either.getOrThrow);
+
+describe("fetchSchedule", () => {
+  test("transforms raw games", async () => {
+    const games = await run(FIXTURES, (s) => s.fetchSchedule("winter"));
+
+    expect(games).toHaveLength(15);
+    expect(games[0]).toEqual({
+      id: 132,
+      date: "2026-01-11",
+      time: "5:00 pm",
+      field: "Beach Chalet - Pitch #4",
+      awayTeam: "Bar Down Boys",
+      awayScore: 4,
+      homeTeam: "Barbary Coast",
+      homeScore: 8,
+      gameType: "regular",
+      typeName: "Regular Season",
+      isBarbaryCoast: true,
+      barbaryCoastIsHome: true,
+    });
+  });
+
+  test("flags Barbary Coast games and home side", async () => {
+    const games = await run(FIXTURES, (s) => s.fetchSchedule("winter"));
+    const byId = new Map(games.map((g) => [g.id, g]));
+
+    expect(byId.get(133)?.isBarbaryCoast).toBe(false);
+    expect(byId.get(133)?.barbaryCoastIsHome).toBeNull();
+    expect(byId.get(136)?.barbaryCoastIsHome).toBe(false);
+    // Champion rows carry trophy markup in the team name
+    expect(byId.get(146)?.isBarbaryCoast).toBe(true);
+    expect(byId.get(146)?.barbaryCoastIsHome).toBe(true);
+    expect(byId.get(146)?.homeTeam).toBe("Barbary Coast");
+  });
+
+  test("maps game types", async () => {
+    const games = await run(FIXTURES, (s) => s.fetchSchedule("winter"));
+    const byId = new Map(games.map((g) => [g.id, g]));
+
+    expect([132, 144, 146].map((id) => [byId.get(id)?.typeName, byId.get(id)?.gameType])).toEqual([
+      ["Regular Season", "regular"],
+      ["Semi-Finals", "playoff"],
+      ["Championship", "championship"],
+    ]);
+  });
+
+  test("normalizes empty-string scores to null", async () => {
+    const games = await run(MALFORMED, (s) => s.fetchSchedule("spring"));
+    const upcoming = games.find((g) => g.id === 201);
+
+    expect(upcoming?.awayScore).toBeNull();
+    expect(upcoming?.homeScore).toBeNull();
+    expect(upcoming?.homeTeam).toBe("Barbary Coast");
+  });
+
+  test("skips games that fail validation", async () => {
+    const games = await run(MALFORMED, (s) => s.fetchSchedule("spring"));
+
+    // Non-numeric id, malformed score and missing field are dropped
+    expect(games.map((g) => g.id)).toEqual([201, 202, 206]);
+  });
+
+  test("fails on non-array responses", async () => {
+    const result = await runEither(MALFORMED, (s) => s.fetchSchedule("summer"));
+
+    expect(Either.isLeft(result)).toBe(true);
+    expect(Either.getLeft(result).pipe(Option.getOrThrow)).toMatchObject({
+      _tag: "UnexpectedResponseError",
+      snippet: '{"error":"Season not found"}',
+    });
+  });
+});
+
+describe("fetchStandings", () => {
+  test("parses the standings table", async () => {
+    const standings = await run(FIXTURES, (s) => s.fetchStandings("winter"));
+
+    expect(standings).toHaveLength(4);
+    expect(standings[0]).toEqual({
+      team: "Barbary Coast",
+      gp: 6,
+      w: 6,
+      l: 0,
+      t: 0,
+      pts: 12,
+      gf: 46,
+      ga: 22,
+    });
+    expect(standings.map((s) => s.team)).toEqual([
+      "Barbary Coast",
+      "Palo Alto Ducks",
+      "Bar Down Boys",
+      "San Francisco Lacrosse Club",
+    ]);
+  });
+
+  test("returns no rows for a page without a standings table", async () => {
+    const standings = await run(MALFORMED, (s) => s.fetchStandings("spring"));
+
+    expect(standings).toEqual([]);
+  });
+});
+
+describe("fetchStats", () => {
+  test("parses player tables with team from logo (synthetic page)", async () => {
+    const { players } = await run(SYNTHETIC, (s) => s.fetchStats("winter"));
+
+    expect(players).toHaveLength(4);
+    expect(players[0]).toEqual({
+      name: "Herron, Liam",
+      number: "12",
+      team: "Barbary Coast",
+      gp: 7,
+      goals: 9,
+      assists: 4,
+      points: 13,
+    });
+    expect(players[3].team).toBe("Palo Alto Ducks");
+  });
+
+  test("defaults unparseable cells to zero", async () => {
+    const { players } = await run(SYNTHETIC, (s) => s.fetchStats("winter"));
+    const okafor = players.find((p) => p.name === "Okafor, Sam");
+
+    expect(okafor?.number).toBe("");
+    expect(okafor?.goals).toBe(0);
+    expect(okafor?.points).toBe(1);
+  });
+
+  test("takes the team from a logo in a header around the table (synthetic page)", async () => {
+    const { players, goalies } = await run(SYNTHETIC, (s) => s.fetchStats("spring"));
+
+    expect(players.map((p) => [p.name, p.team])).toEqual([
+      ["Herron, Liam", "Barbary Coast"],
+      ["Brennan, Kyle", "Olympic Club"],
+    ]);
+    expect(goalies.map((g) => g.team)).toEqual(["Barbary Coast"]);
+  });
+
+  test("parses goalie tables", async () => {
+    const { goalies } = await run(SYNTHETIC, (s) => s.fetchStats("winter"));
+
+    expect(goalies).toHaveLength(2);
+    expect(goalies[0]).toEqual({
+      name: "Held, J Michael",
+      number: "1",
+      team: "Barbary Coast",
+      wins: 6,
+      losses: 0,
+      goalsAgainst: 22,
+      saves: 61,
+      savePercentage: 0.735,
+    });
+  });
+});
+
+describe("fetchRoster", () => {
+  test("parses roster tables with captain flags (synthetic page)", async () => {
+    const roster = await run(SYNTHETIC, (s) => s.fetchRoster("winter"));
+
+    expect(roster).toHaveLength(5);
+    expect(roster[1]).toEqual({
+      name: "Herron, Liam",
+      number: "12",
+      position: "Attack",
+      height: `6'2"`,
+      weight: "200",
+      age: "24",
+      homeTown: "Washington, DC",
+      team: "Barbary Coast",
+      isCaptain: true,
+      isAssistantCaptain: false,
+    });
+    expect(roster[2].name).toBe("Julian, David");
+    expect(roster[2].isAssistantCaptain).toBe(true);
+    expect(roster[4].team).toBe("Palo Alto Ducks");
+  });
+
+  test("takes the team from a logo in a header around the table (synthetic page)", async () => {
+    const roster = await run(SYNTHETIC, (s) => s.fetchRoster("spring"));
+
+    expect(roster.map((p) => [p.name, p.team])).toEqual([
+      ["Herron, Liam", "Barbary Coast"],
+      ["Brennan, Kyle", "Olympic Club"],
+    ]);
+  });
+
+  test("strips captain badges glued to the surname", async () => {
+    const roster = await run(SYNTHETIC, (s) => s.fetchRoster("winter"));
+    const delgado = roster[3];
+
+    expect(delgado.name).toBe("Delgado, Fernando");
+    expect(delgado.isCaptain).toBe(true);
+    expect(delgado.isAssistantCaptain).toBe(false);
+    // All-caps surnames are left whole
+    expect(roster[4]).toMatchObject({ name: "NGUYEN, CHRIS", isCaptain: false });
+  });
+
+  test("roster and stats spellings build one profile per player", async () => {
+    const season = await run(SYNTHETIC, (s) => s.fetchSeason("winter"));
+    const profiles = buildPlayerProfiles({ "winter-2026": season }, []);
+
+    expect(profiles.map((p) => p.slug)).toEqual([
+      "chris-nguyen",
+      "daniel-park",
+      "david-julian",
+      "fernando-delgado",
+      "j-michael-held",
+      "liam-herron",
+      "sam-okafor",
+    ]);
+  });
+});
+
+describe("parsePlayerName", () => {
+  test("takes a badge only when it's glued to a capitalized surname", () => {
+    expect(parsePlayerName("CZhu, Harrison")).toEqual({ name: "Zhu, Harrison", badge: "C" });
+    expect(parsePlayerName("AOrtega , Gustavo")).toEqual({ name: "Ortega , Gustavo", badge: "A" });
+    expect(parsePlayerName("CMcIntyre, Jake").name).toBe("McIntyre, Jake");
+    for (const name of ["CARTER, JOHN", "CJ, Smith", "Carter, John", "AJ Smith"]) {
+      expect(parsePlayerName(name)).toEqual({ name, badge: null });
+    }
+  });
+});
+
+describe("fetchArchives", () => {
+  test("parses champions listed under season headers", async () => {
+    const championships = await run(FIXTURES, (s) => s.fetchArchives());
+
+    expect(championships).toHaveLength(6);
+    expect(championships).toContainEqual({
+      year: 2025,
+      season: "spring",
+      division: "Men's Field",
+      champion: "Barbary Coast (A Div)",
+    });
+    expect(championships.filter((c) => c.season === "winter").map((c) => c.year)).toEqual([
+      2026, 2025, 2024,
+    ]);
+  });
+
+  test("falls back to plain-text year patterns", async () => {
+    const championships = await run(MALFORMED, (s) => s.fetchArchives());
+
+    expect(championships).toEqual([
+      { year: 2025, season: "winter", division: "Men's Field", champion: "Barbary Coast" },
+      { year: 2024, season: "winter", division: "Men's Field", champion: "SFLC Black" },
+      { year: 2025, season: "spring", division: "Men's Field", champion: "Olympic Club" },
+    ]);
+  });
+});
+
+describe("fetchArchiveSchedule", () => {
+  test("transforms archived games", async () => {
+    const games = await run(FIXTURES, (s) => s.fetchArchiveSchedule("winter", 2025));
+
+    expect(games).toHaveLength(15);
+    expect(games[0].date).toBe("2025-01-05");
+    expect(games.every((g) => g.date.startsWith("2025-"))).toBe(true);
+  });
+
+  test("returns no games for a season the league didn't play", async () => {
+    const games = await run(MALFORMED, (s) => s.fetchArchiveSchedule("summer", 2019));
+
+    expect(games).toEqual([]);
+  });
+
+  test("fails on other non-array responses", async () => {
+    const result = await runEither(MALFORMED, (s) => s.fetchArchiveSchedule("spring", 2019));
+
+    expect(Either.isLeft(result)).toBe(true);
+    expect(Either.getLeft(result).pipe(Option.getOrThrow)._tag).toBe("UnexpectedResponseError");
+  });
+
+  test("fails rather than returning no games when the request fails", async () => {
+    const result = await runEither(MALFORMED, (s) => s.fetchArchiveSchedule("winter", 2019));
+
+    expect(Either.isLeft(result)).toBe(true);
+    expect(Either.getLeft(result).pipe(Option.getOrThrow)._tag).toBe("HttpError");
+  });
+});
+
+describe("fetchArchiveStandings", () => {
+  test("coerces string columns to numbers", async () => {
+    const standings = await run(FIXTURES, (s) => s.fetchArchiveStandings("winter", 2025));
+
+    expect(standings).toHaveLength(4);
+    expect(standings[2]).toEqual({
+      team: "San Francisco Lacrosse Club",
+      gp: 7,
+      w: 3,
+      l: 4,
+      t: 0,
+      pts: 6,
+      gf: 34,
+      ga: 41,
+    });
+  });
+});
+
+describe("fetchSeason", () => {
+  test("combines every season page", async () => {
+    const season = await run(SYNTHETIC, (s) => s.fetchSeason("winter"));
+
+    expect(season.schedule).toHaveLength(15);
+    expect(season.standings).toHaveLength(4);
+    expect(season.playerStats).toHaveLength(4);
+    expect(season.goalieStats).toHaveLength(2);
+    expect(season.roster).toHaveLength(5);
+  });
+
+  test("fails when a fixture is missing", async () => {
+    const result = await runEither(MALFORMED, (s) => s.fetchSeason("spring"));
+
+    expect(Either.isLeft(result)).toBe(true);
+    expect(Either.getLeft(result).pipe(Option.getOrThrow)).toMatchObject({
+      _tag: "HttpError",
+      status: null,
+    });
+  });
+});
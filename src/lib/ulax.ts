@@ -1,7 +1,10 @@
-import { HttpClient, HttpClientRequest } from "@effect/platform";
+import { HttpClient } from "@effect/platform";
 import * as cheerio from "cheerio";
 import type { Element } from "domhandler";
 import { Context, Effect, Layer, Schema } from "effect";
+import { parseUlaxDate } from "./date";
+import { type FetchError, getJson, getText, snippet, UnexpectedResponseError } from "./errors";
+import { cleanTeamName, isOurTeam, TEAM } from "./team";
 
 // ============================================================================
 // Types
@@ -41,7 +44,7 @@ export interface UlaxGame {
   awayScore: number | null;
   homeTeam: string;
   homeScore: number | null;
-  gameType: "regular" | "playoff" | "championship";
+  gameType: "regular" | "playoff" | "championship" | "consolation";
   typeName: string;
   isBarbaryCoast: boolean;
   barbaryCoastIsHome: boolean | null;
@@ -153,6 +156,8 @@ export interface UlaxSeasonData {
   playerStats: UlaxPlayerStats[];
   goalieStats: UlaxGoalieStats[];
   roster: UlaxRosterPlayer[];
+  // Archive seasons: the league's published table, or rebuilt from the schedule
+  standingsSource?: "official" | "computed";
 }
 
 export interface UlaxSeasonDataSerialized extends Omit<UlaxSeasonData, "schedule"> {
@@ -175,12 +180,64 @@ export interface UlaxAllDataSerialized extends Omit<UlaxAllData, "seasons"> {
   seasons: Record<string, UlaxSeasonDataSerialized>;
 }
 
+// Schemas for ulax.json as the sync writes it, checked before each write so a
+// broken scrape can't replace good data. Mirrors the interfaces above.
+export const UlaxGameSchema = Schema.Struct({
+  id: Schema.Number,
+  date: Schema.String.pipe(Schema.pattern(/^\d{4}-\d{2}-\d{2}$/)),
+  time: Schema.String,
+  field: Schema.String,
+  awayTeam: Schema.String,
+  awayScore: Schema.NullOr(Schema.NonNegativeInt),
+  homeTeam: Schema.String,
+  homeScore: Schema.NullOr(Schema.NonNegativeInt),
+  gameType: Schema.Literal("regular", "playoff", "championship", "consolation"),
+  typeName: Schema.String,
+  isBarbaryCoast: Schema.Boolean,
+  barbaryCoastIsHome: Schema.NullOr(Schema.Boolean),
+});
+
+export const UlaxStandingSchema = Schema.Struct({
+  team: Schema.String,
+  gp: Schema.NonNegativeInt,
+  w: Schema.NonNegativeInt,
+  l: Schema.NonNegativeInt,
+  t: Schema.NonNegativeInt,
+  pts: Schema.Int,
+  gf: Schema.NonNegativeInt,
+  ga: Schema.NonNegativeInt,
+});
+
+export const UlaxSeasonDataSchema = Schema.Struct({
+  schedule: Schema.mutable(Schema.Array(UlaxGameSchema)),
+  standings: Schema.mutable(Schema.Array(UlaxStandingSchema)),
+  playerStats: Schema.mutable(Schema.Array(UlaxPlayerStats)),
+  goalieStats: Schema.mutable(Schema.Array(UlaxGoalieStats)),
+  roster: Schema.mutable(Schema.Array(UlaxRosterPlayer)),
+  standingsSource: Schema.optional(Schema.Literal("official", "computed")),
+});
+
+export const UlaxAllDataSchema = Schema.Struct({
+  currentSeason: SeasonSchema,
+  currentYear: Schema.Int,
+  seasons: Schema.mutable(
+    Schema.Record({
+      key: Schema.String.pipe(Schema.pattern(/^(winter|spring|summer)-\d{4}$/)),
+      value: UlaxSeasonDataSchema,
+    }),
+  ),
+  championships: Schema.mutable(Schema.Array(UlaxChampionship)),
+  barbaryCoast: Schema.Struct({
+    allTime: BarbaryCoastAllTime,
+    seasons: Schema.mutable(Schema.Array(BarbaryCoastSeasonSummary)),
+  }),
+  fetchedAt: Schema.String,
+});
+
 // ============================================================================
 // Helpers
 // ============================================================================
 
-export const BARBARY_COAST = "Barbary Coast";
-
 /**
  * Find a table element that contains all the specified header texts.
  * Returns null if no matching table is found.
@@ -203,56 +260,75 @@ function findTableWithHeaders(
   return foundTable;
 }
 
-/**
- * Extract team name from the preceding team logo image (x50.png).
- * Used on stats/roster pages where team logo precedes each team's table.
- */
-function extractTeamFromImage($: cheerio.CheerioAPI, table: cheerio.Cheerio<Element>): string {
-  const prevImg = $(table).prevAll("img[src*='x50.png']").first();
-  const src = prevImg.attr("src") || "";
+function teamFromLogo(src: string): string {
   const match = src.match(/\/([^/]+)_x50\.png/);
   return match
-    ? match[1]
+    ? decodeURIComponent(match[1])
         .replace(/_/g, " ")
         .replace(/\s*\(.*\)/, "")
         .trim()
     : "";
 }
 
-function parseGameDate(dateStr: string): string {
-  // Format: "January 11, 2026" -> "2026-01-11"
-  // Return as YYYY-MM-DD string to avoid timezone issues in JSON serialization
-  const parsed = new Date(dateStr);
-  const year = parsed.getFullYear();
-  const month = String(parsed.getMonth() + 1).padStart(2, "0");
-  const day = String(parsed.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+/**
+ * Team of each table on the stats and roster pages, from the team logo
+ * (x50.png) closest before it in the page. The logo usually sits in a
+ * header wrapped around or beside the table rather than next to it, so
+ * it's looked up in document order. Tables with no logo before them get "".
+ */
+function teamsByTable($: cheerio.CheerioAPI): Map<Element, string> {
+  const teams = new Map<Element, string>();
+  let team = "";
+  $("img[src*='_x50.png'], table").each((_, el) => {
+    if (el.tagName === "img") {
+      team = teamFromLogo($(el).attr("src") ?? "");
+    } else {
+      teams.set(el, team);
+    }
+  });
+  return teams;
+}
+
+/**
+ * Split a captain badge off a player name. ULAX glues a bare "C" or "A" to the
+ * surname of a "Last, First" name ("CZhu, Harrison"), so the badge only counts
+ * when a capitalized surname follows it; "CARTER, JOHN" and "CJ, Smith" are
+ * left alone. Roster and stats names both go through here so they match.
+ */
+export function parsePlayerName(text: string): { name: string; badge: "C" | "A" | null } {
+  const cleaned = text.replace(/\s+/g, " ").trim();
+  const badge = cleaned.match(/^([CA])(?=[A-Z][a-z][^,]*,)/)?.[1] as "C" | "A" | undefined;
+  return badge ? { name: cleaned.slice(1), badge } : { name: cleaned, badge: null };
 }
 
-function parseGameType(type: number): "regular" | "playoff" | "championship" {
+// ULAX's gametype ids: 0 "Regular Season", 1 "Championship", 2 "Semi-Finals";
+// the only other type it lists is "Consolation"
+function parseGameType(type: number): UlaxGame["gameType"] {
   switch (type) {
+    case 0:
+      return "regular";
     case 1:
-      return "playoff";
-    case 2:
       return "championship";
+    case 2:
+      return "playoff";
     default:
-      return "regular";
+      return "consolation";
   }
 }
 
 function transformGame(raw: UlaxGameRaw): UlaxGame {
-  const isBarbaryCoast =
-    raw.hometeam.includes(BARBARY_COAST) || raw.awayteam.includes(BARBARY_COAST);
-  const barbaryCoastIsHome = isBarbaryCoast ? raw.hometeam.includes(BARBARY_COAST) : null;
+  const isBarbaryCoast = isOurTeam(raw.hometeam) || isOurTeam(raw.awayteam);
+  const barbaryCoastIsHome = isBarbaryCoast ? isOurTeam(raw.hometeam) : null;
 
   return {
     id: raw.id,
-    date: parseGameDate(raw.gamedate),
+    // Left as ULAX wrote it if unreadable, so validation names the bad date
+    date: parseUlaxDate(raw.gamedate) ?? raw.gamedate,
     time: raw.gametime,
     field: raw.field,
-    awayTeam: raw.awayteam.trim(),
+    awayTeam: cleanTeamName(raw.awayteam),
     awayScore: raw.awayscore,
-    homeTeam: raw.hometeam.trim(),
+    homeTeam: cleanTeamName(raw.hometeam),
     homeScore: raw.homescore,
     gameType: parseGameType(raw.gametype),
     typeName: raw.typename,
@@ -265,10 +341,14 @@ function transformGame(raw: UlaxGameRaw): UlaxGame {
 // Service Definition
 // ============================================================================
 
-const SCHEDULE_API =
-  "https://ulax.org/assets/getData/getDataSeasons.php?type=schedule&league=sanfran&season=";
+const SCHEDULE_API = `https://ulax.org/assets/getData/getDataSeasons.php?type=schedule&league=${TEAM.league.slug}&season=`;
 const ARCHIVE_API = "https://ulax.org/assets/getData/getDataSeasons.php";
-const BASE_URL = "https://ulax.org/sanfrancisco/men/";
+const BASE_URL = `https://ulax.org/${TEAM.league.path}/`;
+
+// Seasons the league didn't play come back as {"error": "No archive for this season"}
+const NoArchiveResponse = Schema.Struct({
+  error: Schema.String.pipe(Schema.pattern(/no archive/i)),
+});
 
 function capitalize(s: string): string {
   return s.charAt(0).toUpperCase() + s.slice(1);
@@ -277,23 +357,23 @@ function capitalize(s: string): string {
 export class UlaxService extends Context.Tag("UlaxService")<
   UlaxService,
   {
-    readonly fetchSchedule: (season: Season) => Effect.Effect<UlaxGame[], Error>;
-    readonly fetchStandings: (season: Season) => Effect.Effect<UlaxStanding[], Error>;
+    readonly fetchSchedule: (season: Season) => Effect.Effect<UlaxGame[], FetchError>;
+    readonly fetchStandings: (season: Season) => Effect.Effect<UlaxStanding[], FetchError>;
     readonly fetchStats: (
       season: Season,
-    ) => Effect.Effect<{ players: UlaxPlayerStats[]; goalies: UlaxGoalieStats[] }, Error>;
-    readonly fetchRoster: (season: Season) => Effect.Effect<UlaxRosterPlayer[], Error>;
-    readonly fetchArchives: () => Effect.Effect<UlaxChampionship[], Error>;
-    readonly fetchSeason: (season: Season) => Effect.Effect<UlaxSeasonData, Error>;
+    ) => Effect.Effect<{ players: UlaxPlayerStats[]; goalies: UlaxGoalieStats[] }, FetchError>;
+    readonly fetchRoster: (season: Season) => Effect.Effect<UlaxRosterPlayer[], FetchError>;
+    readonly fetchArchives: () => Effect.Effect<UlaxChampionship[], FetchError>;
+    readonly fetchSeason: (season: Season) => Effect.Effect<UlaxSeasonData, FetchError>;
     readonly fetchArchiveSchedule: (
       season: Season,
       year: number,
-    ) => Effect.Effect<UlaxGame[], Error>;
+    ) => Effect.Effect<UlaxGame[], FetchError>;
     readonly fetchArchiveStandings: (
       season: Season,
       year: number,
-    ) => Effect.Effect<UlaxStanding[], Error>;
-    readonly fetchAll: (season: Season) => Effect.Effect<UlaxData, Error>;
+    ) => Effect.Effect<UlaxStanding[], FetchError>;
+    readonly fetchAll: (season: Season) => Effect.Effect<UlaxData, FetchError>;
   }
 >() {}
 
@@ -305,11 +385,14 @@ const makeFetchSchedule = (client: HttpClient.HttpClient) => (season: Season) =>
   Effect.gen(function* () {
     const url = `${SCHEDULE_API}${season}`;
 
-    const response = yield* client.execute(HttpClientRequest.get(url));
-    const json = yield* response.json;
+    const json = yield* getJson(client, url);
 
     if (!Array.isArray(json)) {
-      return yield* Effect.fail(new Error("Expected array response"));
+      return yield* new UnexpectedResponseError({
+        url,
+        expected: "an array of games",
+        snippet: snippet(JSON.stringify(json)),
+      });
     }
 
     const games: UlaxGame[] = [];
@@ -337,8 +420,7 @@ const makeFetchStandings = (client: HttpClient.HttpClient) => (season: Season) =
   Effect.gen(function* () {
     const url = `${BASE_URL}${season}/standings`;
 
-    const response = yield* client.execute(HttpClientRequest.get(url));
-    const html = yield* response.text;
+    const html = yield* getText(client, url);
 
     const $ = cheerio.load(html);
     const standings: UlaxStanding[] = [];
@@ -373,10 +455,10 @@ const makeFetchStats = (client: HttpClient.HttpClient) => (season: Season) =>
   Effect.gen(function* () {
     const url = `${BASE_URL}${season}/stats`;
 
-    const response = yield* client.execute(HttpClientRequest.get(url));
-    const html = yield* response.text;
+    const html = yield* getText(client, url);
 
     const $ = cheerio.load(html);
+    const teams = teamsByTable($);
     const players: UlaxPlayerStats[] = [];
     const goalies: UlaxGoalieStats[] = [];
 
@@ -396,12 +478,12 @@ const makeFetchStats = (client: HttpClient.HttpClient) => (season: Season) =>
         headers.includes("PTS") &&
         !headers.includes("W")
       ) {
-        const team = extractTeamFromImage($, $table);
+        const team = teams.get(tableEl) ?? "";
 
         $table.find("tbody tr").each((_, row) => {
           const cells = $(row).find("td");
           if (cells.length >= 6) {
-            const name = $(cells[0]).text().trim();
+            const { name } = parsePlayerName($(cells[0]).text());
             if (name) {
               players.push({
                 name,
@@ -424,12 +506,12 @@ const makeFetchStats = (client: HttpClient.HttpClient) => (season: Season) =>
         headers.includes("GA") &&
         headers.includes("SV")
       ) {
-        const team = extractTeamFromImage($, $table);
+        const team = teams.get(tableEl) ?? "";
 
         $table.find("tbody tr").each((_, row) => {
           const cells = $(row).find("td");
           if (cells.length >= 7) {
-            const name = $(cells[0]).text().trim();
+            const { name } = parsePlayerName($(cells[0]).text());
             if (name) {
               goalies.push({
                 name,
@@ -447,6 +529,11 @@ const makeFetchStats = (client: HttpClient.HttpClient) => (season: Season) =>
       }
     });
 
+    const rows = [...players, ...goalies];
+    if (rows.length > 0 && rows.every((p) => p.team === "")) {
+      yield* Effect.logWarning(`Stats: no team logo found for any table on ${url}`);
+    }
+
     return { players, goalies };
   });
 
@@ -454,10 +541,10 @@ const makeFetchRoster = (client: HttpClient.HttpClient) => (season: Season) =>
   Effect.gen(function* () {
     const url = `${BASE_URL}${season}/rosters`;
 
-    const response = yield* client.execute(HttpClientRequest.get(url));
-    const html = yield* response.text;
+    const html = yield* getText(client, url);
 
     const $ = cheerio.load(html);
+    const teams = teamsByTable($);
     const roster: UlaxRosterPlayer[] = [];
 
     // Find roster tables - need to iterate since there are multiple tables per team
@@ -469,16 +556,12 @@ const makeFetchRoster = (client: HttpClient.HttpClient) => (season: Season) =>
         .get();
 
       if (headers.includes("Position") && headers.includes("Height")) {
-        const team = extractTeamFromImage($, $table);
+        const team = teams.get(tableEl) ?? "";
 
         $table.find("tbody tr").each((_, row) => {
           const cells = $(row).find("td");
           if (cells.length >= 7) {
-            const nameCell = $(cells[0]).text().trim();
-            const isCaptain = nameCell.includes("(C)") || $(cells[0]).find(".captain").length > 0;
-            const isAssistantCaptain =
-              nameCell.includes("(A)") || $(cells[0]).find(".assistant").length > 0;
-            const name = nameCell.replace(/\s*\([CA]\)\s*/g, "").trim();
+            const { name, badge } = parsePlayerName($(cells[0]).text());
 
             if (name) {
               roster.push({
@@ -490,8 +573,8 @@ const makeFetchRoster = (client: HttpClient.HttpClient) => (season: Season) =>
                 age: $(cells[5]).text().trim(),
                 homeTown: $(cells[6]).text().trim(),
                 team,
-                isCaptain,
-                isAssistantCaptain,
+                isCaptain: badge === "C",
+                isAssistantCaptain: badge === "A",
               });
             }
           }
@@ -499,6 +582,10 @@ const makeFetchRoster = (client: HttpClient.HttpClient) => (season: Season) =>
       }
     });
 
+    if (roster.length > 0 && roster.every((p) => p.team === "")) {
+      yield* Effect.logWarning(`Roster: no team logo found for any table on ${url}`);
+    }
+
     return roster;
   });
 
@@ -506,8 +593,7 @@ const makeFetchArchives = (client: HttpClient.HttpClient) => () =>
   Effect.gen(function* () {
     const url = `${BASE_URL}winter/archives`;
 
-    const response = yield* client.execute(HttpClientRequest.get(url));
-    const html = yield* response.text;
+    const html = yield* getText(client, url);
 
     const $ = cheerio.load(html);
     const championships: UlaxChampionship[] = [];
@@ -532,7 +618,7 @@ const makeFetchArchives = (client: HttpClient.HttpClient) => () =>
                 championships.push({
                   year: Number.parseInt(match[1], 10),
                   season,
-                  division: "Men's Field",
+                  division: TEAM.league.division,
                   champion: match[2].trim(),
                 });
               }
@@ -554,7 +640,7 @@ const makeFetchArchives = (client: HttpClient.HttpClient) => () =>
             championships.push({
               year: Number.parseInt(match[1], 10),
               season,
-              division: "Men's Field",
+              division: TEAM.league.division,
               champion: match[2].trim(),
             });
           }
@@ -568,13 +654,17 @@ const makeFetchArchives = (client: HttpClient.HttpClient) => () =>
 const makeFetchArchiveSchedule =
   (client: HttpClient.HttpClient) => (season: Season, year: number) =>
     Effect.gen(function* () {
-      const url = `${ARCHIVE_API}?type=archive_schedule&league=sanfran&season=${capitalize(season)}&year=${year}`;
+      const url = `${ARCHIVE_API}?type=archive_schedule&league=${TEAM.league.slug}&season=${capitalize(season)}&year=${year}`;
 
-      const response = yield* client.execute(HttpClientRequest.get(url));
-      const json = yield* response.json;
+      const json = yield* getJson(client, url);
+      if (Schema.is(NoArchiveResponse)(json)) return [];
 
       if (!Array.isArray(json)) {
-        return yield* Effect.fail(new Error("Expected array response from archive schedule"));
+        return yield* new UnexpectedResponseError({
+          url,
+          expected: "an array of archived games",
+          snippet: snippet(JSON.stringify(json)),
+        });
       }
 
       const games: UlaxGame[] = [];
@@ -591,13 +681,16 @@ const makeFetchArchiveSchedule =
 const makeFetchArchiveStandings =
   (client: HttpClient.HttpClient) => (season: Season, year: number) =>
     Effect.gen(function* () {
-      const url = `${ARCHIVE_API}?type=archive_standings&league=sanfran&season=${capitalize(season)}&year=${year}`;
+      const url = `${ARCHIVE_API}?type=archive_standings&league=${TEAM.league.slug}&season=${capitalize(season)}&year=${year}`;
 
-      const response = yield* client.execute(HttpClientRequest.get(url));
-      const json = yield* response.json;
+      const json = yield* getJson(client, url);
 
       if (!Array.isArray(json)) {
-        return yield* Effect.fail(new Error("Expected array response from archive standings"));
+        return yield* new UnexpectedResponseError({
+          url,
+          expected: "an array of archived standings",
+          snippet: snippet(JSON.stringify(json)),
+        });
       }
 
       const standings: UlaxStanding[] = [];
@@ -622,12 +715,12 @@ const makeFetchArchiveStandings =
 
 const makeFetchSeason =
   (
-    fetchSchedule: (s: Season) => Effect.Effect<UlaxGame[], Error>,
-    fetchStandings: (s: Season) => Effect.Effect<UlaxStanding[], Error>,
+    fetchSchedule: (s: Season) => Effect.Effect<UlaxGame[], FetchError>,
+    fetchStandings: (s: Season) => Effect.Effect<UlaxStanding[], FetchError>,
     fetchStats: (
       s: Season,
-    ) => Effect.Effect<{ players: UlaxPlayerStats[]; goalies: UlaxGoalieStats[] }, Error>,
-    fetchRoster: (s: Season) => Effect.Effect<UlaxRosterPlayer[], Error>,
+    ) => Effect.Effect<{ players: UlaxPlayerStats[]; goalies: UlaxGoalieStats[] }, FetchError>,
+    fetchRoster: (s: Season) => Effect.Effect<UlaxRosterPlayer[], FetchError>,
   ) =>
   (season: Season) =>
     Effect.gen(function* () {
@@ -0,0 +1,7 @@
+import type { APIRoute } from "astro";
+import ulaxData from "../../data/ulax.json";
+import { buildOpponentsResponse, jsonResponse, OpponentsResponse } from "../../lib/api";
+import type { UlaxAllDataSerialized } from "../../lib/ulax";
+
+export const GET: APIRoute = () =>
+  jsonResponse(OpponentsResponse, buildOpponentsResponse(ulaxData as UlaxAllDataSerialized));
@@ -0,0 +1,7 @@
+import type { APIRoute } from "astro";
+import ulaxData from "../../data/ulax.json";
+import { buildScheduleResponse, jsonResponse, ScheduleResponse } from "../../lib/api";
+import type { UlaxAllDataSerialized } from "../../lib/ulax";
+
+export const GET: APIRoute = () =>
+  jsonResponse(ScheduleResponse, buildScheduleResponse(ulaxData as UlaxAllDataSerialized));
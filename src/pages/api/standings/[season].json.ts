@@ -0,0 +1,17 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import ulaxData from "../../../data/ulax.json";
+import {
+  buildStandingsResponse,
+  jsonResponse,
+  StandingsResponse,
+  standingsSeasons,
+} from "../../../lib/api";
+import type { UlaxAllDataSerialized } from "../../../lib/ulax";
+
+const data = ulaxData as UlaxAllDataSerialized;
+
+export const getStaticPaths = (() =>
+  standingsSeasons(data).map((season) => ({ params: { season } }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ params }) =>
+  jsonResponse(StandingsResponse, buildStandingsResponse(data, params.season as string));
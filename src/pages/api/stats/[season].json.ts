@@ -0,0 +1,12 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import ulaxData from "../../../data/ulax.json";
+import { buildStatsResponse, jsonResponse, StatsResponse, statsSeasons } from "../../../lib/api";
+import type { UlaxAllDataSerialized } from "../../../lib/ulax";
+
+const data = ulaxData as UlaxAllDataSerialized;
+
+export const getStaticPaths = (() =>
+  statsSeasons(data).map((season) => ({ params: { season } }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ params }) =>
+  jsonResponse(StatsResponse, buildStatsResponse(data, params.season as string));
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+import calendarData from "../data/calendar.json";
+import ulaxData from "../data/ulax.json";
+import type { CalendarData } from "../lib/calendar";
+import { NON_LEAGUE_GAMES } from "../lib/games";
+import { buildFeed } from "../lib/ics";
+import type { UlaxAllDataSerialized } from "../lib/ulax";
+
+export const GET: APIRoute = () =>
+  new Response(
+    buildFeed(
+      "all",
+      ulaxData as UlaxAllDataSerialized,
+      calendarData as CalendarData,
+      NON_LEAGUE_GAMES,
+    ),
+    {
+      headers: { "Content-Type": "text/calendar; charset=utf-8" },
+    },
+  );
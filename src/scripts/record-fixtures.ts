@@ -0,0 +1,31 @@
+#!/usr/bin/env bun
+import { FetchHttpClient } from "@effect/platform";
+import { BunContext, BunRuntime } from "@effect/platform-bun";
+import { Console, Effect, Layer } from "effect";
+import { recordingLayer } from "../lib/http-fixtures";
+import { UlaxService, UlaxServiceLive } from "../lib/ulax";
+
+// Keep in sync with the requests made in src/lib/ulax.test.ts
+const FIXTURE_DIR = new URL("../lib/__fixtures__/ulax", import.meta.url).pathname;
+const SEASON = "winter";
+const ARCHIVE_YEAR = 2025;
+
+const program = Effect.gen(function* () {
+  const service = yield* UlaxService;
+
+  yield* Console.log(`Recording ULAX fixtures to ${FIXTURE_DIR}...`);
+
+  yield* service.fetchSeason(SEASON);
+  yield* service.fetchArchives();
+  yield* service.fetchArchiveSchedule(SEASON, ARCHIVE_YEAR);
+  yield* service.fetchArchiveStandings(SEASON, ARCHIVE_YEAR);
+
+  yield* Console.log("✓ Fixtures recorded. Review the diff and update test expectations.");
+});
+
+const RecordingClient = recordingLayer(FIXTURE_DIR).pipe(
+  Layer.provide(Layer.mergeAll(FetchHttpClient.layer, BunContext.layer)),
+);
+const UlaxLive = UlaxServiceLive.pipe(Layer.provide(RecordingClient));
+
+BunRuntime.runMain(program.pipe(Effect.provide(UlaxLive)));
@@ -1,8 +1,26 @@
 #!/usr/bin/env bun
 import { FetchHttpClient, FileSystem, Path } from "@effect/platform";
 import { BunContext, BunRuntime } from "@effect/platform-bun";
-import { Console, Effect, Layer } from "effect";
-import { type CalendarData, CalendarService, CalendarServiceLive } from "../lib/calendar";
+import { Console, Effect, Layer, Option } from "effect";
+import {
+  applyCalendarSync,
+  CALENDAR_CONFIG,
+  type CalendarData,
+  CalendarService,
+  type CalendarSource,
+  googleCalendarLayer,
+  replaceWindow,
+  type TimeWindow,
+} from "../lib/calendar";
+import { diffCalendar, formatCalendarReport } from "../lib/changes";
+import { httpPolicyLayer, LOCAL_CACHE } from "../lib/http-policy";
+import { icsCalendarLayer } from "../lib/ics-calendar";
+
+// Where the last sync left off, so the next one only asks for changes
+interface SyncState {
+  syncToken: string | null;
+  syncedAt: string;
+}
 
 const writeData = (data: CalendarData) =>
   Effect.gen(function* () {
@@ -19,33 +37,169 @@ const writeData = (data: CalendarData) =>
     yield* Console.log(`✓ Wrote ${data.events.length} events to ${filePath}`);
   });
 
-const program = Effect.gen(function* () {
-  const calendarId = process.env.GOOGLE_CALENDAR_ID;
-  const apiKey = process.env.GOOGLE_API_KEY;
+const writeSyncState = (state: SyncState) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    const __dirname = new URL(".", import.meta.url).pathname;
+    const filePath = path.join(__dirname, "..", "data", "calendar-sync.json");
+
+    yield* fs.writeFileString(filePath, `${JSON.stringify(state, null, 2)}\n`);
+  });
 
-  if (!calendarId || !apiKey) {
-    return yield* Effect.fail(
-      new Error("Missing GOOGLE_CALENDAR_ID or GOOGLE_API_KEY environment variables"),
-    );
+const loadSyncState = Effect.gen(function* () {
+  const fs = yield* FileSystem.FileSystem;
+  const path = yield* Path.Path;
+  const __dirname = new URL(".", import.meta.url).pathname;
+  const filePath = path.join(__dirname, "..", "data", "calendar-sync.json");
+
+  const result = yield* Effect.option(
+    Effect.gen(function* () {
+      const content = yield* fs.readFileString(filePath);
+      return JSON.parse(content) as SyncState;
+    }),
+  );
+  return Option.getOrUndefined(result);
+});
+
+const loadExistingData = Effect.gen(function* () {
+  const fs = yield* FileSystem.FileSystem;
+  const path = yield* Path.Path;
+  const __dirname = new URL(".", import.meta.url).pathname;
+  const filePath = path.join(__dirname, "..", "data", "calendar.json");
+
+  const result = yield* Effect.option(
+    Effect.gen(function* () {
+      const content = yield* fs.readFileString(filePath);
+      return JSON.parse(content) as CalendarData;
+    }),
+  );
+  return Option.getOrUndefined(result);
+});
+
+// Markdown summary of what changed, used as the sync PR body
+const writeReport = (report: string, reportPath: string | undefined) =>
+  Effect.gen(function* () {
+    yield* Console.log(`\n${report}`);
+    if (!reportPath) return;
+
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    yield* fs.makeDirectory(path.dirname(reportPath), { recursive: true });
+    yield* fs.writeFileString(reportPath, report);
+    yield* Console.log(`✓ Wrote change report to ${reportPath}`);
+  });
+
+// Value following a flag, e.g. `--from 2026-09-01`
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+// Accepts a date or a full ISO datetime; dates start at midnight UTC
+function toTimestamp(flag: string, value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${flag} must be a date like 2026-09-01, got "${value}"`);
   }
+  return date.toISOString();
+}
+
+// The CalendarService for a source; Google needs credentials from the environment
+const sourceLayer = (source: CalendarSource) =>
+  Effect.gen(function* () {
+    if (source.type === "ics") {
+      yield* Console.log("Syncing calendar data from an iCalendar feed...");
+      yield* Console.log(`  Source: ${source.location}`);
+      return icsCalendarLayer(source.location);
+    }
+
+    const calendarId = process.env.GOOGLE_CALENDAR_ID;
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!calendarId || !apiKey) {
+      return yield* Effect.fail(
+        new Error(
+          "Missing GOOGLE_CALENDAR_ID or GOOGLE_API_KEY environment variables; use --ics <url or file> to sync without them",
+        ),
+      );
+    }
+    yield* Console.log("Syncing Google Calendar data...");
+    yield* Console.log(`  Calendar ID: ${calendarId}`);
+    return googleCalendarLayer({ calendarId, apiKey });
+  });
+
+const program = Effect.gen(function* () {
+  const args = process.argv.slice(2);
+  const reportPath = flagValue(args, "--report");
+  const fullSync = args.includes("--full");
+  const window: TimeWindow = yield* Effect.try(() => ({
+    timeMin: toTimestamp("--from", flagValue(args, "--from")),
+    timeMax: toTimestamp("--to", flagValue(args, "--to")),
+  }));
+  const windowed = window.timeMin !== undefined || window.timeMax !== undefined;
+  const icsLocation = flagValue(args, "--ics");
+
+  const calendar = yield* sourceLayer(
+    icsLocation ? { type: "ics", location: icsLocation } : CALENDAR_CONFIG.source,
+  );
+
+  const existing = yield* loadExistingData;
+  const state = yield* loadSyncState;
+  const service = yield* Effect.provide(CalendarService, calendar);
 
-  yield* Console.log("Syncing Google Calendar data...");
-  yield* Console.log(`  Calendar ID: ${calendarId}`);
+  // A window refreshes just that stretch of the calendar and leaves the sync
+  // token alone; otherwise only changes since the last sync are fetched.
+  const fetched = windowed
+    ? Effect.map(service.fetchEvents(window), (events) => ({
+        events: replaceWindow(existing?.events ?? [], events, window),
+        state,
+        summary: `${events.length} events in the window`,
+      }))
+    : Effect.map(
+        service.syncEvents(fullSync || !existing ? null : (state?.syncToken ?? null)),
+        (sync) => {
+          const summary = sync.full
+            ? `${sync.events.length} events`
+            : `${sync.events.length} changed and ${sync.deleted.length} deleted events`;
+          return {
+            events: applyCalendarSync(existing?.events ?? [], sync),
+            state: { syncToken: sync.nextSyncToken, syncedAt: new Date().toISOString() },
+            summary,
+          };
+        },
+      );
 
-  const service = yield* CalendarService;
-  const events = yield* service.fetchEvents(calendarId, apiKey);
+  const result = yield* fetched.pipe(
+    Effect.catchTags({
+      AuthError: (error) =>
+        Effect.fail(
+          new Error(
+            error.kind === "quota"
+              ? `Google Calendar quota exhausted; try again later. ${error.message}`
+              : `Google rejected the request; check GOOGLE_API_KEY and that the calendar is public. ${error.message}`,
+          ),
+        ),
+      UnexpectedResponseError: (error) =>
+        Effect.fail(new Error(`Google Calendar API response changed shape. ${error.message}`)),
+    }),
+  );
 
-  yield* Console.log(`  Fetched ${events.length} events`);
+  yield* Console.log(`  Fetched ${result.summary}`);
 
   const data: CalendarData = {
-    events,
+    events: result.events,
     fetchedAt: new Date().toISOString(),
   };
 
   yield* writeData(data);
+  if (result.state) yield* writeSyncState(result.state);
+  yield* writeReport(formatCalendarReport(diffCalendar(existing, data)), reportPath);
 });
 
-const CalendarLive = CalendarServiceLive.pipe(Layer.provide(FetchHttpClient.layer));
-const MainLayer = Layer.mergeAll(BunContext.layer, CalendarLive);
+const HttpLive = httpPolicyLayer({
+  cache: process.argv.includes("--cache") ? LOCAL_CACHE : undefined,
+}).pipe(Layer.provide(Layer.mergeAll(FetchHttpClient.layer, BunContext.layer)));
+const MainLayer = Layer.mergeAll(BunContext.layer, HttpLive);
 
 BunRuntime.runMain(program.pipe(Effect.provide(MainLayer)));
@@ -2,12 +2,21 @@
 import { FetchHttpClient, FileSystem, Path } from "@effect/platform";
 import { BunContext, BunRuntime } from "@effect/platform-bun";
 import { Console, Effect, Layer, Option } from "effect";
+import { diffUlax, formatUlaxReport } from "../lib/changes";
+import { pacificToday } from "../lib/date";
+import type { AuthError, FetchError } from "../lib/errors";
+import { computeAllTimeStats, computeBarbaryCoastSeasons } from "../lib/history";
+import { httpPolicyLayer, LOCAL_CACHE } from "../lib/http-policy";
+import { unmatchedGames } from "../lib/playoffs";
+import { validateUlaxData } from "../lib/quality";
+import { detectCurrentSeason, SEASON_CONFIG, seasonYear } from "../lib/season";
+import { standingsFromSchedule } from "../lib/standings";
+import { TEAM } from "../lib/team";
 import {
-  BARBARY_COAST,
-  type BarbaryCoastAllTime,
-  type BarbaryCoastSeasonSummary,
   fetchArchiveSchedule,
+  fetchArchiveStandings,
   fetchArchives,
+  fetchSchedule,
   fetchSeason,
   type Season,
   type UlaxAllData,
@@ -20,109 +29,30 @@ import {
 
 const SEASONS: Season[] = ["winter", "spring", "summer"];
 
-const BC_ARCHIVE_SEASONS: { season: Season; year: number }[] = [
-  { season: "spring", year: 2022 },
-  { season: "spring", year: 2023 },
-  { season: "spring", year: 2024 },
-  { season: "summer", year: 2024 },
-  { season: "winter", year: 2025 },
-  { season: "spring", year: 2025 },
-  { season: "summer", year: 2025 },
-];
-
-// Determine current season based on month
-function getCurrentSeason(): Season {
-  const month = new Date().getMonth();
-  if (month >= 0 && month <= 2) return "winter"; // Jan-Mar
-  if (month >= 3 && month <= 5) return "spring"; // Apr-Jun
-  return "summer"; // Jul-Dec (summer runs through fall)
-}
+// Archive years are probed backwards until this many in a row come back empty
+const MAX_EMPTY_ARCHIVE_YEARS = 2;
 
 function getCurrentYear(): number {
-  return new Date().getFullYear();
+  return Number(pacificToday().slice(0, 4));
 }
 
-// Compute standings from schedule data
-function standingsFromSchedule(games: UlaxGame[]): UlaxStanding[] {
-  const teams = new Map<string, UlaxStanding>();
-
-  for (const g of games) {
-    if (g.awayScore === null || g.homeScore === null) continue;
-
-    for (const side of ["away", "home"] as const) {
-      const team = side === "away" ? g.awayTeam : g.homeTeam;
-      const gf = side === "away" ? g.awayScore : g.homeScore;
-      const ga = side === "away" ? g.homeScore : g.awayScore;
-
-      if (!teams.has(team)) {
-        teams.set(team, { team, gp: 0, w: 0, l: 0, t: 0, pts: 0, gf: 0, ga: 0 });
-      }
-      // biome-ignore lint/style/noNonNullAssertion: set above
-      const s = teams.get(team)!;
-      s.gp++;
-      s.gf += gf;
-      s.ga += ga;
-      if (gf > ga) {
-        s.w++;
-        s.pts += 2;
-      } else if (gf < ga) {
-        s.l++;
-      } else {
-        s.t++;
-        s.pts += 1;
-      }
+// The live pages serve each season type's latest schedule, whichever year that is
+const resolveCurrentSeason = (schedules: Partial<Record<Season, UlaxGame[]>>) =>
+  Effect.gen(function* () {
+    if (SEASON_CONFIG.override) {
+      yield* Console.log("  (current season set in src/config/season.json)");
+      return SEASON_CONFIG.override;
     }
-  }
-
-  return [...teams.values()].sort((a, b) => b.pts - a.pts || b.gf - b.ga - (a.gf - a.ga));
-}
-
-// Compute Barbary Coast stats from season data
-function computeBarbaryCoastSummary(
-  seasonKey: string,
-  data: UlaxSeasonData,
-  championships: UlaxChampionship[],
-): BarbaryCoastSeasonSummary | null {
-  const bc = data.standings.find((s) => s.team.includes(BARBARY_COAST));
-  if (!bc) return null;
-
-  const isChampion = championships.some(
-    (c) => c.champion.includes(BARBARY_COAST) && seasonKey.includes(c.season),
-  );
-
-  let result = "Regular Season";
-  if (isChampion) {
-    result = "Champions";
-  } else if (bc.w > bc.l) {
-    result = "Playoffs"; // Assume winning record = playoffs
-  }
-
-  return {
-    season: seasonKey,
-    wins: bc.w,
-    losses: bc.l,
-    ties: bc.t,
-    goalsFor: bc.gf,
-    goalsAgainst: bc.ga,
-    result,
-    isChampion,
-  };
-}
-
-// Aggregate all-time stats
-function computeAllTimeStats(seasons: BarbaryCoastSeasonSummary[]): BarbaryCoastAllTime {
-  return seasons.reduce(
-    (acc, s) => ({
-      wins: acc.wins + s.wins,
-      losses: acc.losses + s.losses,
-      ties: acc.ties + s.ties,
-      titles: acc.titles + (s.isChampion ? 1 : 0),
-      goalsFor: acc.goalsFor + s.goalsFor,
-      goalsAgainst: acc.goalsAgainst + s.goalsAgainst,
-    }),
-    { wins: 0, losses: 0, ties: 0, titles: 0, goalsFor: 0, goalsAgainst: 0 },
-  );
-}
+    const detected = detectCurrentSeason(schedules);
+    if (!detected) {
+      return yield* Effect.fail(
+        new Error(
+          "Couldn't detect the current season from the ULAX schedules; set an override in src/config/season.json",
+        ),
+      );
+    }
+    return detected;
+  });
 
 const writeData = (data: UlaxAllData) =>
   Effect.gen(function* () {
@@ -142,6 +72,52 @@ const writeData = (data: UlaxAllData) =>
     yield* Console.log(`✓ Wrote ${seasonCount} seasons, ${gameCount} games to ${filePath}`);
   });
 
+// Refuse to replace good data with a broken scrape; exits non-zero so the
+// workflow never opens a PR. --force writes anyway, for real removals.
+const checkData = (data: UlaxAllData, existing: UlaxAllData | undefined, force: boolean) =>
+  Effect.gen(function* () {
+    const issues = validateUlaxData(data, existing);
+    if (issues.length === 0) return;
+
+    yield* Console.error(`\n${issues.length} data problem(s):`);
+    for (const issue of issues) {
+      yield* Console.error(`  ! ${issue}`);
+    }
+    if (force) {
+      yield* Console.log("  (--force: writing anyway)");
+      return;
+    }
+    return yield* Effect.fail(
+      new Error("Refusing to write ulax.json; re-run with --force if these changes are real"),
+    );
+  });
+
+// A renamed team drops its games from the playoff picture; say so rather
+// than let it happen quietly
+const reportUnmatchedGames = (key: string, seasons: Record<string, UlaxSeasonData>) =>
+  Effect.gen(function* () {
+    const data = seasons[key];
+    if (!data) return;
+    for (const game of unmatchedGames(data.standings, data.schedule)) {
+      yield* Console.log(
+        `  ! ${key}: ${game.awayTeam} @ ${game.homeTeam} on ${game.date} (#${game.id}) has a team missing from the standings, so the playoff picture leaves it out`,
+      );
+    }
+  });
+
+// Markdown summary of what changed, used as the sync PR body
+const writeReport = (report: string, reportPath: string | undefined) =>
+  Effect.gen(function* () {
+    yield* Console.log(`\n${report}`);
+    if (!reportPath) return;
+
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    yield* fs.makeDirectory(path.dirname(reportPath), { recursive: true });
+    yield* fs.writeFileString(reportPath, report);
+    yield* Console.log(`✓ Wrote change report to ${reportPath}`);
+  });
+
 const printSummary = (data: UlaxAllData) =>
   Effect.gen(function* () {
     yield* Console.log("\nSummary:");
@@ -151,26 +127,31 @@ const printSummary = (data: UlaxAllData) =>
 
     const bc = data.barbaryCoast;
     yield* Console.log(
-      `\nBarbary Coast All-Time: ${bc.allTime.wins}-${bc.allTime.losses}-${bc.allTime.ties}`,
+      `\n${TEAM.name} All-Time: ${bc.allTime.wins}-${bc.allTime.losses}-${bc.allTime.ties}`,
     );
     yield* Console.log(`  Titles: ${bc.allTime.titles}`);
     yield* Console.log(`  Goals: ${bc.allTime.goalsFor} for, ${bc.allTime.goalsAgainst} against`);
   });
 
+// Everything but an auth failure is specific to one page, so it needn't stop the sync
+const isPageError = (error: FetchError): error is Exclude<FetchError, AuthError> =>
+  error._tag !== "AuthError";
+
 const fetchAllSeasons = Effect.gen(function* () {
-  const currentYear = getCurrentYear();
   yield* Console.log("Fetching current seasons...");
 
   const results = yield* Effect.all(
     SEASONS.map((season) =>
       Effect.gen(function* () {
         yield* Console.log(`  Fetching ${season}...`);
-        const result = yield* Effect.option(fetchSeason(season));
-        if (Option.isSome(result)) {
-          const data = result.value;
-          if (data.schedule.length > 0 || data.standings.length > 0) {
-            return [`${season}-${currentYear}`, data] as const;
-          }
+        const data = yield* fetchSeason(season).pipe(
+          Effect.catchIf(isPageError, (error) =>
+            Effect.as(Console.log(`    ! skipping ${season}: ${error.message}`), null),
+          ),
+        );
+        if (data && (data.schedule.length > 0 || data.standings.length > 0)) {
+          const year = seasonYear(data.schedule) ?? getCurrentYear();
+          return [season, year, data] as const;
         }
         yield* Console.log(`    (no data for ${season})`);
         return null;
@@ -180,54 +161,144 @@ const fetchAllSeasons = Effect.gen(function* () {
   );
 
   const seasons: Record<string, UlaxSeasonData> = {};
+  const schedules: Partial<Record<Season, UlaxGame[]>> = {};
   for (const result of results) {
     if (result) {
-      seasons[result[0]] = result[1];
+      const [season, year, data] = result;
+      seasons[`${season}-${year}`] = data;
+      schedules[season] = data.schedule;
     }
   }
 
-  return seasons;
+  const current = yield* resolveCurrentSeason(schedules);
+  return { seasons, current };
 });
 
-const fetchArchiveSeasons = Effect.gen(function* () {
-  yield* Console.log("Fetching archive seasons...");
-
-  const results = yield* Effect.all(
-    BC_ARCHIVE_SEASONS.map(({ season, year }) =>
-      Effect.gen(function* () {
-        const key = `${season}-${year}`;
-        yield* Console.log(`  Fetching archive ${key}...`);
-        const schedule = yield* fetchArchiveSchedule(season, year);
-        const standings = standingsFromSchedule(schedule);
-        const data: UlaxSeasonData = {
-          schedule,
-          standings,
-          playerStats: [],
-          goalieStats: [],
-          roster: [],
-        };
-        yield* Console.log(`    ${schedule.length} games, ${standings.length} teams`);
-        return [key, data] as const;
-      }),
-    ),
-    { concurrency: 3 },
+// A stored season with every game scored and the league's own standings won't
+// change, so it needn't be refetched
+function isSeasonComplete(data: UlaxSeasonData | undefined): boolean {
+  return (
+    !!data &&
+    data.standingsSource === "official" &&
+    data.schedule.length > 0 &&
+    data.schedule.every((g) => g.homeScore !== null && g.awayScore !== null)
   );
+}
 
-  const seasons: Record<string, UlaxSeasonData> = {};
-  for (const [key, data] of results) {
-    seasons[key] = data;
-  }
-  return seasons;
-});
+/**
+ * Fetch an archived season. The league's published standings are stored when
+ * available; standings rebuilt from the schedule are the fallback, and any
+ * disagreement between the two is listed in the sync report for a human to
+ * check. Seasons the league didn't play come back empty; any other failure
+ * stops the sync, so a flaky request can't pass for the end of the archive.
+ */
+const fetchArchiveSeason = (season: Season, year: number) =>
+  Effect.gen(function* () {
+    const key = `${season}-${year}`;
+    const schedule = yield* fetchArchiveSchedule(season, year);
+    if (schedule.length === 0) return null;
 
-const fetchCurrentSeasonOnly = (season: Season) =>
+    const official = yield* fetchArchiveStandings(season, year).pipe(
+      Effect.catchIf(isPageError, () => Effect.succeed<UlaxStanding[]>([])),
+    );
+    const standingsSource = official.length > 0 ? "official" : "computed";
+    const standings = standingsSource === "official" ? official : standingsFromSchedule(schedule);
+
+    yield* Console.log(
+      `  Archive ${key}: ${schedule.length} games, ${standings.length} teams (${standingsSource} standings)`,
+    );
+    const data: UlaxSeasonData = {
+      schedule,
+      standings,
+      playerStats: [],
+      goalieStats: [],
+      roster: [],
+      standingsSource,
+    };
+    return data;
+  });
+
+/**
+ * Find every archived season the league has. Championship years from the
+ * archives page say where each season type has history; every year from the
+ * earliest of those through last year is fetched, then earlier years are
+ * probed until they run dry. This year's seasons come from the live pages.
+ * Seasons already fetched live (`skip`) or stored complete in ulax.json are
+ * not requested again.
+ */
+const fetchArchiveSeasons = (
+  championships: readonly UlaxChampionship[],
+  existing: Record<string, UlaxSeasonData>,
+  skip: ReadonlySet<string>,
+) =>
   Effect.gen(function* () {
     const currentYear = getCurrentYear();
-    yield* Console.log(`Fetching ${season} season only...`);
-    const data = yield* fetchSeason(season);
-    return { [`${season}-${currentYear}`]: data };
+    const seasons: Record<string, UlaxSeasonData> = {};
+    let reused = 0;
+
+    const load = (season: Season, year: number) =>
+      Effect.gen(function* () {
+        const key = `${season}-${year}`;
+        if (skip.has(key)) return true;
+        if (isSeasonComplete(existing[key])) {
+          seasons[key] = existing[key];
+          reused++;
+          return true;
+        }
+        const data = yield* fetchArchiveSeason(season, year);
+        if (data) seasons[key] = data;
+        return data !== null;
+      });
+
+    yield* Console.log("Discovering archive seasons...");
+    yield* Effect.all(
+      SEASONS.map((season) =>
+        Effect.gen(function* () {
+          const lastYear = currentYear - 1;
+          const earliest = Math.min(
+            lastYear,
+            ...championships.filter((c) => c.season === season).map((c) => c.year),
+          );
+
+          const years = Array.from({ length: lastYear - earliest + 1 }, (_, i) => earliest + i);
+          yield* Effect.all(
+            years.map((year) => load(season, year)),
+            { concurrency: 3 },
+          );
+
+          // Walk back past the first recorded champion to the league's founding
+          let emptyYears = 0;
+          for (let year = earliest - 1; emptyYears < MAX_EMPTY_ARCHIVE_YEARS; year--) {
+            emptyYears = (yield* load(season, year)) ? 0 : emptyYears + 1;
+          }
+        }),
+      ),
+      { concurrency: 3 },
+    );
+
+    yield* Console.log(
+      `  ${Object.keys(seasons).length} archive seasons (${reused} already complete in ulax.json)`,
+    );
+    return seasons;
   });
 
+// Schedules are one request each, so they're all checked to find the season to fetch
+const fetchCurrentSeasonOnly = Effect.gen(function* () {
+  const schedules: Partial<Record<Season, UlaxGame[]>> = {};
+  if (!SEASON_CONFIG.override) {
+    for (const season of SEASONS) {
+      schedules[season] = yield* fetchSchedule(season).pipe(
+        Effect.catchIf(isPageError, () => Effect.succeed<UlaxGame[]>([])),
+      );
+    }
+  }
+  const current = yield* resolveCurrentSeason(schedules);
+
+  yield* Console.log(`Fetching ${current.season} season only...`);
+  const data = yield* fetchSeason(current.season);
+  return { seasons: { [`${current.season}-${current.year}`]: data }, current };
+});
+
 const loadExistingData = Effect.gen(function* () {
   const fs = yield* FileSystem.FileSystem;
   const path = yield* Path.Path;
@@ -247,11 +318,10 @@ const program = Effect.gen(function* () {
   const args = process.argv.slice(2);
   const currentOnly = args.includes("--current-only");
   const withArchives = args.includes("--with-archives");
-  const currentSeason = getCurrentSeason();
-  const currentYear = getCurrentYear();
-
+  const force = args.includes("--force");
+  const reportIndex = args.indexOf("--report");
+  const reportPath = reportIndex === -1 ? undefined : args[reportIndex + 1];
   yield* Console.log(`Syncing ULAX data...`);
-  yield* Console.log(`  Current season: ${currentSeason} ${currentYear}`);
 
   // Fetch championships first
   yield* Console.log("Fetching archives...");
@@ -259,35 +329,32 @@ const program = Effect.gen(function* () {
   yield* Console.log(`  Found ${championships.length} championships`);
 
   // Fetch current season data
-  const seasons = currentOnly
-    ? yield* fetchCurrentSeasonOnly(currentSeason)
-    : yield* fetchAllSeasons;
+  const { seasons, current } = currentOnly ? yield* fetchCurrentSeasonOnly : yield* fetchAllSeasons;
+  yield* Console.log(`  Current season: ${current.season} ${current.year}`);
 
   // Fetch archive seasons if requested, otherwise preserve from existing data
+  const existing = yield* loadExistingData;
+  const existingSeasons = existing?.seasons ?? {};
   if (withArchives) {
-    const archiveSeasons = yield* fetchArchiveSeasons;
+    const archiveSeasons = yield* fetchArchiveSeasons(
+      championships,
+      existingSeasons,
+      new Set(Object.keys(seasons)),
+    );
     Object.assign(seasons, archiveSeasons);
-  } else {
-    const existing = yield* loadExistingData;
-    if (existing) {
-      for (const [key, data] of Object.entries(existing.seasons)) {
-        if (!(key in seasons)) {
-          seasons[key] = data as UlaxSeasonData;
-        }
-      }
+  }
+  for (const [key, data] of Object.entries(existingSeasons)) {
+    if (!(key in seasons)) {
+      seasons[key] = data;
     }
   }
 
-  // Compute Barbary Coast stats
-  const bcSeasons: BarbaryCoastSeasonSummary[] = [];
-  for (const [key, data] of Object.entries(seasons)) {
-    const summary = computeBarbaryCoastSummary(key, data, championships);
-    if (summary) bcSeasons.push(summary);
-  }
+  // Compute our team's stats
+  const bcSeasons = computeBarbaryCoastSeasons(seasons, championships);
 
   const allData: UlaxAllData = {
-    currentSeason,
-    currentYear,
+    currentSeason: current.season,
+    currentYear: current.year,
     seasons,
     championships,
     barbaryCoast: {
@@ -297,11 +364,17 @@ const program = Effect.gen(function* () {
     fetchedAt: new Date().toISOString(),
   };
 
+  yield* checkData(allData, existing, force);
+  yield* reportUnmatchedGames(`${current.season}-${current.year}`, seasons);
   yield* writeData(allData);
   yield* printSummary(allData);
+  yield* writeReport(formatUlaxReport(diffUlax(existing?.seasons, seasons)), reportPath);
 });
 
-const UlaxLive = UlaxServiceLive.pipe(Layer.provide(FetchHttpClient.layer));
+const HttpLive = httpPolicyLayer({
+  cache: process.argv.includes("--cache") ? LOCAL_CACHE : undefined,
+}).pipe(Layer.provide(Layer.mergeAll(FetchHttpClient.layer, BunContext.layer)));
+const UlaxLive = UlaxServiceLive.pipe(Layer.provide(HttpLive));
 const MainLayer = Layer.mergeAll(BunContext.layer, UlaxLive);
 
 BunRuntime.runMain(program.pipe(Effect.provide(MainLayer)));